@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+// GET /api/competitors/[id]/products - List products tracked on a list-mode competitor's page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if competitor exists and belongs to user
+    const competitor = await prisma.competitor.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    })
+
+    if (!competitor) {
+      return NextResponse.json({ error: 'Competitor not found' }, { status: 404 })
+    }
+
+    const products = await prisma.competitorProduct.findMany({
+      where: { competitorId: params.id },
+      include: {
+        // Latest two records so changes can be shown per product
+        priceRecords: {
+          orderBy: { scrapedAt: 'desc' },
+          take: 2,
+        },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    })
+
+    return NextResponse.json({ products })
+  } catch (error) {
+    console.error('Error fetching products:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { refreshListCompetitor } from '@/lib/listings'
+
+// Lets the scheduled n8n workflow refresh any user's list-mode competitors
+const DASHBOARD_API_KEY = process.env.DASHBOARD_API_KEY || ''
+
+// POST /api/competitors/[id]/refresh - Scrape a list-mode competitor's page under each of its
+// emulation profiles and record every product on it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const scheduled = DASHBOARD_API_KEY !== '' && request.headers.get('x-api-key') === DASHBOARD_API_KEY
+    const session = scheduled ? null : await getServerSession(authOptions)
+
+    if (!scheduled && !session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const competitor = await prisma.competitor.findFirst({
+      where: scheduled
+        ? { id: params.id }
+        : { id: params.id, userId: session?.user?.id },
+    })
+
+    if (!competitor) {
+      return NextResponse.json({ error: 'Competitor not found' }, { status: 404 })
+    }
+
+    // Single-product competitors are scraped by the scheduled n8n workflow
+    if (competitor.mode !== 'list') {
+      return NextResponse.json(
+        { error: 'Only list-mode competitors can be refreshed here' },
+        { status: 400 }
+      )
+    }
+
+    const result = await refreshListCompetitor(competitor)
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error, profile: result.profile },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json(result.totals)
+  } catch (error) {
+    console.error('Error refreshing competitor:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,17 +2,59 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { isValidRegex } from '@/lib/utils'
+import { pageActionSchema } from '@/lib/actions'
 import { z } from 'zod'
 
 const updateCompetitorSchema = z.object({
   name: z.string().min(1).optional(),
   url: z.string().url().optional(),
+  mode: z.enum(['product', 'list']).optional(),
+  fetchMode: z.enum(['browser', 'http']).optional(),
   productName: z.string().optional(),
-  priceSelector: z.string().min(1).optional(),
+  itemSelector: z.string().optional(),
+  linkSelector: z.string().optional(),
+  nextPageSelector: z.string().optional(),
+  maxPages: z.number().int().min(1).max(20).optional(),
+  priceSelector: z.string().optional(),
+  priceSelectorType: z.enum(['css', 'xpath', 'regex']).optional(),
+  priceAttribute: z.string().optional(),
+  originalPriceSelector: z.string().optional(),
+  availabilitySelector: z.string().optional(),
+  apiUrlPattern: z.string().optional(),
+  apiPricePath: z.string().optional(),
+  apiCurrencyPath: z.string().optional(),
+  apiNamePath: z.string().optional(),
+  apiAvailabilityPath: z.string().optional(),
   nameSelector: z.string().optional(),
   imageSelector: z.string().optional(),
+  locale: z.string().optional(),
+  proxyPool: z.string().optional(),
+  profiles: z.array(z.string().min(1)).max(10).optional(),
+  ignoreRobots: z.boolean().optional(),
+  evidenceScreenshot: z.enum(['page', 'element']).nullable().optional(),
+  evidenceHtml: z.boolean().optional(),
+  actions: z.array(pageActionSchema).max(20).optional(),
   isActive: z.boolean().optional(),
-})
+}).refine(
+  (data) => data.priceSelectorType !== 'regex' || data.priceSelector === undefined || isValidRegex(data.priceSelector),
+  { message: 'Price selector is not a valid regular expression', path: ['priceSelector'] }
+)
+
+// The create schema's list-mode rules, checked against the competitor as it will be saved,
+// since an update may change the mode or the selectors alone
+const listModeSchema = z.object({
+  mode: z.string(),
+  itemSelector: z.string().nullable(),
+  priceSelector: z.string().nullable(),
+  priceSelectorType: z.string(),
+}).refine(
+  (data) => data.mode !== 'list' || Boolean(data.itemSelector && data.priceSelector),
+  { message: 'List mode requires an item selector and a price selector', path: ['itemSelector'] }
+).refine(
+  (data) => data.mode !== 'list' || data.priceSelectorType === 'css',
+  { message: 'List mode only supports CSS selectors', path: ['priceSelectorType'] }
+)
 
 // GET /api/competitors/[id] - Get a specific competitor
 export async function GET(
@@ -80,6 +122,8 @@ export async function PUT(
       return NextResponse.json({ error: 'Competitor not found' }, { status: 404 })
     }
 
+    listModeSchema.parse({ ...existingCompetitor, ...validatedData })
+
     const competitor = await prisma.competitor.update({
       where: { id: params.id },
       data: validatedData,
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isValidRegex } from '@/lib/utils'
+import { z } from 'zod'
+
+const bulkCompetitorSchema = z.object({
+  products: z.array(z.object({
+    name: z.string().min(1),
+    url: z.string().url(),
+  })).min(1).max(500),
+  // One selector configuration shared by every product; empty selectors fall back to structured data
+  config: z.object({
+    fetchMode: z.enum(['browser', 'http']).default('browser'),
+    priceSelector: z.string().optional(),
+    priceSelectorType: z.enum(['css', 'xpath', 'regex']).default('css'),
+    priceAttribute: z.string().optional(),
+    originalPriceSelector: z.string().optional(),
+    availabilitySelector: z.string().optional(),
+    nameSelector: z.string().optional(),
+    imageSelector: z.string().optional(),
+    locale: z.string().optional(),
+    proxyPool: z.string().optional(),
+    profiles: z.array(z.string().min(1)).max(10).default([]),
+    ignoreRobots: z.boolean().default(false),
+  }).refine(
+    (data) => data.priceSelectorType !== 'regex' || isValidRegex(data.priceSelector),
+    { message: 'Price selector is not a valid regular expression', path: ['priceSelector'] }
+  ),
+})
+
+// POST /api/competitors/bulk - Create product competitors for many URLs at once, skipping ones already tracked
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const body = await request.json()
+    const { products, config } = bulkCompetitorSchema.parse(body)
+
+    const existing = await prisma.competitor.findMany({
+      where: {
+        userId,
+        url: { in: products.map((product) => product.url) },
+      },
+      select: { url: true },
+    })
+    const skipped = new Set(existing.map((competitor: { url: string }) => competitor.url))
+    const created = products.filter((product) => {
+      if (skipped.has(product.url)) return false
+      // The same URL twice in one request
+      skipped.add(product.url)
+      return true
+    })
+
+    const { count } = await prisma.competitor.createMany({
+      data: created.map((product) => ({
+        userId,
+        name: product.name,
+        url: product.url,
+        mode: 'product',
+        fetchMode: config.fetchMode,
+        productName: product.name,
+        priceSelector: config.priceSelector || null,
+        priceSelectorType: config.priceSelectorType,
+        priceAttribute: config.priceAttribute || null,
+        originalPriceSelector: config.originalPriceSelector || null,
+        availabilitySelector: config.availabilitySelector || null,
+        nameSelector: config.nameSelector || null,
+        imageSelector: config.imageSelector || null,
+        locale: config.locale || null,
+        proxyPool: config.proxyPool || null,
+        profiles: config.profiles,
+        ignoreRobots: config.ignoreRobots,
+      })),
+    })
+
+    return NextResponse.json(
+      { created: count, skipped: products.length - created.length },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating competitors:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
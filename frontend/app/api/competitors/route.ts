@@ -2,16 +2,54 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { isValidRegex } from '@/lib/utils'
+import { pageActionSchema } from '@/lib/actions'
 import { z } from 'zod'
 
 const competitorSchema = z.object({
   name: z.string().min(1),
   url: z.string().url(),
+  mode: z.enum(['product', 'list']).default('product'),
+  fetchMode: z.enum(['browser', 'http']).default('browser'),
   productName: z.string().optional(),
-  priceSelector: z.string().min(1),
+  itemSelector: z.string().optional(),
+  linkSelector: z.string().optional(),
+  nextPageSelector: z.string().optional(),
+  maxPages: z.number().int().min(1).max(20).optional(),
+  priceSelector: z.string().optional(),
+  priceSelectorType: z.enum(['css', 'xpath', 'regex']).default('css'),
+  priceAttribute: z.string().optional(),
+  originalPriceSelector: z.string().optional(),
+  availabilitySelector: z.string().optional(),
+  apiUrlPattern: z.string().optional(),
+  apiPricePath: z.string().optional(),
+  apiCurrencyPath: z.string().optional(),
+  apiNamePath: z.string().optional(),
+  apiAvailabilityPath: z.string().optional(),
   nameSelector: z.string().optional(),
   imageSelector: z.string().optional(),
-})
+  locale: z.string().optional(),
+  proxyPool: z.string().optional(),
+  profiles: z.array(z.string().min(1)).max(10).default([]),
+  ignoreRobots: z.boolean().default(false),
+  evidenceScreenshot: z.enum(['page', 'element']).optional(),
+  evidenceHtml: z.boolean().default(false),
+  actions: z.array(pageActionSchema).max(20).optional(),
+}).refine(
+  // Prices on a list page can only be read from inside each item
+  (data) => data.mode !== 'list' || Boolean(data.itemSelector && data.priceSelector),
+  { message: 'List mode requires an item selector and a price selector', path: ['itemSelector'] }
+).refine(
+  (data) => data.mode !== 'list' || data.priceSelectorType === 'css',
+  { message: 'List mode only supports CSS selectors', path: ['priceSelectorType'] }
+).refine(
+  (data) => data.priceSelectorType !== 'regex' || isValidRegex(data.priceSelector),
+  { message: 'Price selector is not a valid regular expression', path: ['priceSelector'] }
+).refine(
+  // The API response is only useful when we know where its price is
+  (data) => !data.apiUrlPattern || Boolean(data.apiPricePath),
+  { message: 'A JSON API URL pattern needs a price JSONPath', path: ['apiPricePath'] }
+)
 
 // GET /api/competitors - List all competitors for the current user
 export async function GET(request: NextRequest) {
@@ -28,12 +66,25 @@ export async function GET(request: NextRequest) {
         isActive: true,
       },
       include: {
+        // Enough recent records for the dashboard to find the previous check of the
+        // latest record's emulation profile (a competitor has at most 10)
         priceRecords: {
           orderBy: { scrapedAt: 'desc' },
-          take: 1,
+          take: 11,
+        },
+        // Most recently seen products of list-mode competitors, with their latest price
+        products: {
+          orderBy: { lastSeenAt: 'desc' },
+          take: 5,
+          include: {
+            priceRecords: {
+              orderBy: { scrapedAt: 'desc' },
+              take: 1,
+            },
+          },
         },
         _count: {
-          select: { priceRecords: true },
+          select: { priceRecords: true, products: true },
         },
       },
       orderBy: { createdAt: 'desc' },
@@ -66,10 +117,32 @@ export async function POST(request: NextRequest) {
         userId: session.user.id,
         name: validatedData.name,
         url: validatedData.url,
+        mode: validatedData.mode,
+        fetchMode: validatedData.fetchMode,
         productName: validatedData.productName,
-        priceSelector: validatedData.priceSelector,
+        itemSelector: validatedData.itemSelector || null,
+        linkSelector: validatedData.linkSelector || null,
+        nextPageSelector: validatedData.nextPageSelector || null,
+        maxPages: validatedData.maxPages,
+        priceSelector: validatedData.priceSelector || null,
+        priceSelectorType: validatedData.priceSelectorType,
+        priceAttribute: validatedData.priceAttribute || null,
+        originalPriceSelector: validatedData.originalPriceSelector || null,
+        availabilitySelector: validatedData.availabilitySelector || null,
+        apiUrlPattern: validatedData.apiUrlPattern || null,
+        apiPricePath: validatedData.apiPricePath || null,
+        apiCurrencyPath: validatedData.apiCurrencyPath || null,
+        apiNamePath: validatedData.apiNamePath || null,
+        apiAvailabilityPath: validatedData.apiAvailabilityPath || null,
         nameSelector: validatedData.nameSelector,
         imageSelector: validatedData.imageSelector,
+        locale: validatedData.locale || null,
+        proxyPool: validatedData.proxyPool || null,
+        profiles: validatedData.profiles,
+        ignoreRobots: validatedData.ignoreRobots,
+        evidenceScreenshot: validatedData.evidenceScreenshot || null,
+        evidenceHtml: validatedData.evidenceHtml,
+        actions: validatedData.actions?.length ? validatedData.actions : undefined,
       },
     })
 
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { callScraper } from '@/lib/scraper'
+import { z } from 'zod'
+
+const detectSelectorsSchema = z.object({
+  url: z.string().url(),
+})
+
+// POST /api/detect-selectors - Suggest price, name and image selectors for a URL
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = detectSelectorsSchema.parse(body)
+
+    const { status, data } = await callScraper('/detect-selectors', {
+      url: validatedData.url,
+    })
+
+    if (!data.success) {
+      return NextResponse.json(
+        { error: data.error || 'Selector detection failed' },
+        { status: status >= 400 && status < 500 ? status : 502 }
+      )
+    }
+
+    return NextResponse.json({ candidates: data.data.candidates })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error detecting selectors:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getFromScraper } from '@/lib/scraper'
+
+// GET /api/discover/[id] - Discovery progress, with the URLs already tracked marked
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id
+
+    const { status, data } = await getFromScraper(`/discover/${encodeURIComponent(params.id)}`)
+
+    if (!data.success) {
+      return NextResponse.json(
+        { error: data.error || 'Discovery not found' },
+        { status: status >= 400 && status < 500 ? status : 502 }
+      )
+    }
+
+    // Another user's discovery is reported as missing rather than forbidden
+    if (data.job.owner !== userId) {
+      return NextResponse.json({ error: 'Discovery not found' }, { status: 404 })
+    }
+
+    const urls: string[] = data.job.products.map((product: { url: string }) => product.url)
+    const tracked = await prisma.competitor.findMany({
+      where: {
+        userId,
+        url: { in: urls },
+      },
+      select: { url: true },
+    })
+    const trackedUrls = new Set(tracked.map((competitor: { url: string }) => competitor.url))
+
+    return NextResponse.json({
+      job: {
+        ...data.job,
+        products: data.job.products.map((product: { url: string }) => ({
+          ...product,
+          tracked: trackedUrls.has(product.url),
+        })),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching discovery:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
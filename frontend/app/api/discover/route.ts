@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { callScraper } from '@/lib/scraper'
+import { z } from 'zod'
+
+const discoverSchema = z.object({
+  // A domain for sitemap mode, a category page for crawl mode
+  url: z.string().min(1),
+  mode: z.enum(['sitemap', 'crawl']).default('sitemap'),
+  include: z.array(z.string().min(1)).max(20).optional(),
+  exclude: z.array(z.string().min(1)).max(20).optional(),
+  maxProducts: z.number().int().min(1).max(5000).optional(),
+  fetchTitles: z.boolean().default(false),
+})
+
+// POST /api/discover - Start finding a competitor's product URLs from its sitemaps or a category crawl
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id
+
+    const body = await request.json()
+    const validatedData = discoverSchema.parse(body)
+
+    // Tagged with the user so only they can poll it
+    const { status, data } = await callScraper('/discover', { ...validatedData, owner: userId })
+
+    if (!data.success) {
+      return NextResponse.json(
+        { error: data.error || 'Discovery could not be started', details: data.details },
+        { status: status >= 400 && status < 500 ? status : 502 }
+      )
+    }
+
+    return NextResponse.json({ job: data.job }, { status: 202 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error starting discovery:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
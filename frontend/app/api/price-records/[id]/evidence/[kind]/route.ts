@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { fetchScraperArtifact } from '@/lib/scraper'
+import { z } from 'zod'
+
+const evidenceKinds = ['screenshot', 'html'] as const
+
+type EvidenceKind = (typeof evidenceKinds)[number]
+
+// The evidence part of a price record's stored scrape result, with ids in the scraper's artifact format
+const artifactSchema = z.object({ id: z.string().regex(/^[a-f0-9]{64}\.(png|jpg|html)$/) })
+const rawDataSchema = z.object({
+  evidence: z.object({
+    screenshot: artifactSchema.optional(),
+    html: artifactSchema.optional(),
+  }),
+})
+
+// GET /api/price-records/[id]/evidence/[kind] - View the screenshot or HTML captured with a price record
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; kind: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!evidenceKinds.includes(params.kind as EvidenceKind)) {
+      return NextResponse.json({ error: 'Unknown evidence type' }, { status: 404 })
+    }
+
+    // Check if the record exists and belongs to one of the user's competitors
+    const priceRecord = await prisma.priceRecord.findFirst({
+      where: {
+        id: params.id,
+        competitor: { userId: session.user.id },
+      },
+      select: { rawData: true },
+    })
+
+    if (!priceRecord) {
+      return NextResponse.json({ error: 'Price record not found' }, { status: 404 })
+    }
+
+    const rawData = rawDataSchema.safeParse(priceRecord.rawData)
+    const artifactId = rawData.success ? rawData.data.evidence[params.kind as EvidenceKind]?.id : undefined
+
+    if (!artifactId) {
+      return NextResponse.json({ error: 'No evidence captured for this record' }, { status: 404 })
+    }
+
+    const response = await fetchScraperArtifact(artifactId)
+
+    if (!response.ok) {
+      return NextResponse.json({ error: 'Evidence not found' }, { status: 404 })
+    }
+
+    return new NextResponse(response.body, {
+      headers: {
+        'Content-Type': response.headers.get('content-type') || 'application/octet-stream',
+        // Captured pages are untrusted: never run their scripts on our origin
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching evidence:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,28 +3,170 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { ArrowLeft, Loader2 } from 'lucide-react'
+import { ArrowLeft, List, Loader2, Package, Plus, Wand2, X } from 'lucide-react'
+import { PageActionDraft, PageActionType, pageActionLabels, pageActionTypes, toPageAction } from '@/lib/actions'
+
+interface SelectorCandidate {
+  selector: string
+  score: number
+  sampleValue: string | null
+}
+
+type SelectorField = 'priceSelector' | 'nameSelector' | 'imageSelector'
+
+interface DetectedSelectors {
+  price: SelectorCandidate[]
+  name: SelectorCandidate[]
+  image: SelectorCandidate[]
+}
+
+type CompetitorMode = 'product' | 'list'
+
+type PriceSelectorType = 'css' | 'xpath' | 'regex'
+
+type FetchMode = 'browser' | 'http'
+
+type EvidenceScreenshot = '' | 'page' | 'element'
+
+const priceSelectorPlaceholders: Record<PriceSelectorType, string> = {
+  css: '.price, .product-price, #price',
+  xpath: "//span[@class='price']",
+  regex: '"price":\\s*"([\\d.]+)"',
+}
+
+// What the value field holds for each step type; types without one hide it
+const actionValuePlaceholders: Partial<Record<PageActionType, string>> = {
+  fill: 'Text to type',
+  select: 'Option value or label',
+  press: 'Enter, Escape, ArrowDown',
+  wait: 'Milliseconds',
+}
+
+const emptyAction: PageActionDraft = { type: 'click', selector: '', value: '', timeout: '', optional: false }
+
+const candidateKeys: Record<SelectorField, keyof DetectedSelectors> = {
+  priceSelector: 'price',
+  nameSelector: 'name',
+  imageSelector: 'image',
+}
 
 export default function AddCompetitorPage() {
   const router = useRouter()
   const [formData, setFormData] = useState({
     name: '',
     url: '',
+    mode: 'product' as CompetitorMode,
+    fetchMode: 'browser' as FetchMode,
     productName: '',
+    itemSelector: '',
+    linkSelector: '',
+    nextPageSelector: '',
+    maxPages: '',
     priceSelector: '',
+    priceSelectorType: 'css' as PriceSelectorType,
+    priceAttribute: '',
+    apiUrlPattern: '',
+    apiPricePath: '',
+    apiCurrencyPath: '',
+    apiNamePath: '',
+    apiAvailabilityPath: '',
+    originalPriceSelector: '',
+    availabilitySelector: '',
     nameSelector: '',
     imageSelector: '',
+    locale: '',
+    proxyPool: '',
+    profiles: '',
+    ignoreRobots: false,
+    evidenceScreenshot: '' as EvidenceScreenshot,
+    evidenceHtml: false,
   })
+  const [actions, setActions] = useState<PageActionDraft[]>([])
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [candidates, setCandidates] = useState<DetectedSelectors | null>(null)
+  const [isDetecting, setIsDetecting] = useState(false)
+  const isList = formData.mode === 'list'
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({
       ...formData,
       [e.target.name]: e.target.value,
     })
   }
 
+  const updateAction = (index: number, changes: Partial<PageActionDraft>) => {
+    setActions(actions.map((action, i) => (i === index ? { ...action, ...changes } : action)))
+  }
+
+  const handleDetect = async () => {
+    setError('')
+    setIsDetecting(true)
+
+    try {
+      const response = await fetch('/api/detect-selectors', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url: formData.url }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to detect selectors')
+        return
+      }
+
+      const detected: DetectedSelectors = data.candidates
+      setCandidates(detected)
+
+      // Pre-fill empty fields with the best suggestion
+      setFormData(current => ({
+        ...current,
+        priceSelector: current.priceSelector || detected.price[0]?.selector || '',
+        // Suggestions are CSS selectors
+        priceSelectorType: current.priceSelector ? current.priceSelectorType : 'css',
+        nameSelector: current.nameSelector || detected.name[0]?.selector || '',
+        imageSelector: current.imageSelector || detected.image[0]?.selector || '',
+      }))
+    } catch (err) {
+      setError('An error occurred while detecting selectors.')
+    } finally {
+      setIsDetecting(false)
+    }
+  }
+
+  const renderSuggestions = (field: SelectorField) => {
+    const suggestions = candidates?.[candidateKeys[field]] || []
+    if (suggestions.length === 0) return null
+
+    return (
+      <div className="mt-2 flex flex-wrap gap-2">
+        {suggestions.map((candidate) => (
+          <button
+            key={candidate.selector}
+            type="button"
+            onClick={() => setFormData({
+              ...formData,
+              [field]: candidate.selector,
+              ...(field === 'priceSelector' && { priceSelectorType: 'css' as PriceSelectorType }),
+            })}
+            title={candidate.selector}
+            className={`max-w-full truncate px-2 py-1 text-xs rounded border transition-colors ${
+              formData[field] === candidate.selector
+                ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                : 'border-gray-300 text-gray-600 hover:border-blue-400 dark:border-gray-600 dark:text-gray-300'
+            }`}
+          >
+            {candidate.sampleValue || candidate.selector}
+          </button>
+        ))}
+      </div>
+    )
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -36,7 +178,18 @@ export default function AddCompetitorPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          maxPages: formData.maxPages ? parseInt(formData.maxPages) : undefined,
+          profiles: formData.profiles.split(',').map((name) => name.trim()).filter(Boolean),
+          fetchMode: isList ? 'browser' : formData.fetchMode,
+          // List items are always matched with CSS
+          priceSelectorType: isList ? 'css' : formData.priceSelectorType,
+          priceAttribute: isList || formData.priceSelectorType === 'regex' ? '' : formData.priceAttribute,
+          actions: isList ? [] : actions.map(toPageAction),
+          evidenceScreenshot: isList ? undefined : formData.evidenceScreenshot || undefined,
+          evidenceHtml: !isList && formData.evidenceHtml,
+        }),
       })
 
       const data = await response.json()
@@ -103,9 +256,41 @@ export default function AddCompetitorPage() {
               />
             </div>
 
+            <div>
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                What to Track
+              </span>
+              <div className="flex gap-4">
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, mode: 'product' })}
+                  className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md border transition-colors ${
+                    formData.mode === 'product'
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                      : 'border-gray-300 text-gray-700 hover:border-blue-400 dark:border-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  <Package className="w-4 h-4" />
+                  Single product
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, mode: 'list' })}
+                  className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md border transition-colors ${
+                    formData.mode === 'list'
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                      : 'border-gray-300 text-gray-700 hover:border-blue-400 dark:border-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  <List className="w-4 h-4" />
+                  Every product on a page
+                </button>
+              </div>
+            </div>
+
             <div>
               <label htmlFor="url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Product URL *
+                {isList ? 'Category or Search Page URL *' : 'Product URL *'}
               </label>
               <input
                 type="url"
@@ -115,47 +300,185 @@ export default function AddCompetitorPage() {
                 value={formData.url}
                 onChange={handleChange}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                placeholder="https://example.com/product"
+                placeholder={isList ? 'https://example.com/category/shoes' : 'https://example.com/product'}
               />
-              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-                The full URL of the product page to track
-              </p>
+              <div className="mt-1 flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {isList
+                    ? 'The page listing the products; each product found on it is tracked separately'
+                    : 'The full URL of the product page to track'}
+                </p>
+                {!isList && (
+                  <button
+                    type="button"
+                    onClick={handleDetect}
+                    disabled={!formData.url || isDetecting}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isDetecting ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Wand2 className="w-4 h-4" />
+                    )}
+                    Detect selectors
+                  </button>
+                )}
+              </div>
             </div>
 
-            <div>
-              <label htmlFor="productName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Product Name (optional)
-              </label>
-              <input
-                type="text"
-                id="productName"
-                name="productName"
-                value={formData.productName}
-                onChange={handleChange}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                placeholder="e.g., Widget Pro"
-              />
-            </div>
+            {isList && (
+              <div>
+                <label htmlFor="itemSelector" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Item CSS Selector *
+                </label>
+                <input
+                  type="text"
+                  id="itemSelector"
+                  name="itemSelector"
+                  required
+                  value={formData.itemSelector}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  placeholder=".product-card, li.product"
+                />
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  Matches one element per product. The selectors below are looked up inside each item
+                </p>
+              </div>
+            )}
+
+            {!isList && (
+              <div>
+                <label htmlFor="productName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Product Name (optional)
+                </label>
+                <input
+                  type="text"
+                  id="productName"
+                  name="productName"
+                  value={formData.productName}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  placeholder="e.g., Widget Pro"
+                />
+              </div>
+            )}
 
             <div>
               <label htmlFor="priceSelector" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Price CSS Selector *
+                {isList ? 'Price CSS Selector *' : 'Price Selector (optional)'}
               </label>
-              <input
-                type="text"
-                id="priceSelector"
-                name="priceSelector"
-                required
-                value={formData.priceSelector}
-                onChange={handleChange}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                placeholder=".price, .product-price, #price"
-              />
+              <div className="flex gap-2">
+                {!isList && (
+                  <select
+                    id="priceSelectorType"
+                    name="priceSelectorType"
+                    aria-label="Price selector type"
+                    value={formData.priceSelectorType}
+                    onChange={handleChange}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  >
+                    <option value="css">CSS</option>
+                    <option value="xpath">XPath</option>
+                    <option value="regex">Regex (HTML)</option>
+                  </select>
+                )}
+                <input
+                  type="text"
+                  id="priceSelector"
+                  name="priceSelector"
+                  required={isList}
+                  value={formData.priceSelector}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  placeholder={priceSelectorPlaceholders[isList ? 'css' : formData.priceSelectorType]}
+                />
+              </div>
               <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-                CSS selector for the price element on the page
+                {isList
+                  ? 'CSS selector for the price inside each item'
+                  : formData.priceSelectorType === 'regex'
+                    ? 'Regular expression run over the page HTML, including scripts. The first capture group is the price'
+                    : 'Selector for the price element. Leave empty to rely on the page\'s structured data (JSON-LD, microdata or product meta tags)'}
               </p>
+              {!isList && formData.priceSelectorType !== 'regex' && (
+                <input
+                  type="text"
+                  id="priceAttribute"
+                  name="priceAttribute"
+                  aria-label="Price attribute"
+                  value={formData.priceAttribute}
+                  onChange={handleChange}
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  placeholder="Attribute to read instead of the text, e.g. data-price or content"
+                />
+              )}
+              {renderSuggestions('priceSelector')}
             </div>
 
+            {isList && (
+              <div>
+                <label htmlFor="linkSelector" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Product Link CSS Selector (optional)
+                </label>
+                <input
+                  type="text"
+                  id="linkSelector"
+                  name="linkSelector"
+                  value={formData.linkSelector}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  placeholder="a.product-link"
+                />
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  Defaults to the first link in each item. Products are matched across runs by this URL,
+                  or by name when an item has no link
+                </p>
+              </div>
+            )}
+
+            {!isList && (
+              <div>
+                <label htmlFor="originalPriceSelector" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Regular Price CSS Selector (optional)
+                </label>
+                <input
+                  type="text"
+                  id="originalPriceSelector"
+                  name="originalPriceSelector"
+                  value={formData.originalPriceSelector}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  placeholder=".was-price, .price del"
+                />
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  CSS selector for the struck-through list price shown during a sale. Crossed-out
+                  prices next to the price element are picked up automatically
+                </p>
+              </div>
+            )}
+
+            {!isList && (
+              <div>
+                <label htmlFor="availabilitySelector" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Stock Status CSS Selector (optional)
+                </label>
+                <input
+                  type="text"
+                  id="availabilitySelector"
+                  name="availabilitySelector"
+                  value={formData.availabilitySelector}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  placeholder=".stock-status, #add-to-cart"
+                />
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  Element whose text says &quot;In stock&quot;, &quot;Sold out&quot; and so on. Without it the
+                  page&apos;s schema.org availability is used when present
+                </p>
+              </div>
+            )}
+
             <div>
               <label htmlFor="nameSelector" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Product Name CSS Selector (optional)
@@ -172,6 +495,7 @@ export default function AddCompetitorPage() {
               <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                 CSS selector for the product name element
               </p>
+              {renderSuggestions('nameSelector')}
             </div>
 
             <div>
@@ -190,8 +514,360 @@ export default function AddCompetitorPage() {
               <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                 CSS selector for the product image element
               </p>
+              {renderSuggestions('imageSelector')}
+            </div>
+
+            {isList && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label htmlFor="nextPageSelector" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Next Page CSS Selector (optional)
+                  </label>
+                  <input
+                    type="text"
+                    id="nextPageSelector"
+                    name="nextPageSelector"
+                    value={formData.nextPageSelector}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                    placeholder="a[rel=next], .load-more"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="maxPages" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Max Pages
+                  </label>
+                  <input
+                    type="number"
+                    id="maxPages"
+                    name="maxPages"
+                    min={1}
+                    max={20}
+                    value={formData.maxPages}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                    placeholder="5"
+                  />
+                </div>
+                <p className="col-span-3 -mt-2 text-sm text-gray-500 dark:text-gray-400">
+                  Pagination link or &quot;load more&quot; button to follow after each page
+                </p>
+              </div>
+            )}
+
+            {!isList && (
+              <fieldset className="space-y-3">
+                <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Page Actions (optional)
+                </legend>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Steps run in order after the page loads and before the price is read, e.g. accept the cookie
+                  banner, then pick a size. Selectors may be CSS, text=Accept or xpath=//button. Mark a step
+                  optional if its element is not always there
+                </p>
+                {actions.map((action, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2">
+                    <span className="w-5 text-sm text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                    <select
+                      aria-label={`Step ${index + 1} type`}
+                      value={action.type}
+                      onChange={(e) => updateAction(index, { type: e.target.value as PageActionType })}
+                      className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                    >
+                      {pageActionTypes.map((type) => (
+                        <option key={type} value={type}>
+                          {pageActionLabels[type]}
+                        </option>
+                      ))}
+                    </select>
+                    {action.type !== 'wait' && (
+                      <input
+                        type="text"
+                        aria-label={`Step ${index + 1} selector`}
+                        value={action.selector}
+                        onChange={(e) => updateAction(index, { selector: e.target.value })}
+                        required={action.type !== 'press' && action.type !== 'scroll'}
+                        className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                        placeholder={
+                          action.type === 'scroll'
+                            ? 'Element (empty = page bottom)'
+                            : action.type === 'press'
+                              ? 'Element (optional)'
+                              : '#onetrust-accept-btn-handler'
+                        }
+                      />
+                    )}
+                    {actionValuePlaceholders[action.type] && (
+                      <input
+                        type={action.type === 'wait' ? 'number' : 'text'}
+                        aria-label={`Step ${index + 1} value`}
+                        value={action.value}
+                        onChange={(e) => updateAction(index, { value: e.target.value })}
+                        required={action.type !== 'fill'}
+                        className="w-40 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                        placeholder={actionValuePlaceholders[action.type]}
+                      />
+                    )}
+                    {action.type !== 'wait' && (
+                      <input
+                        type="number"
+                        min="1"
+                        aria-label={`Step ${index + 1} timeout in milliseconds`}
+                        value={action.timeout}
+                        onChange={(e) => updateAction(index, { timeout: e.target.value })}
+                        className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                        placeholder="5000 ms"
+                      />
+                    )}
+                    <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={action.optional}
+                        onChange={(e) => updateAction(index, { optional: e.target.checked })}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Optional
+                    </label>
+                    <button
+                      type="button"
+                      aria-label={`Remove step ${index + 1}`}
+                      onClick={() => setActions(actions.filter((_, i) => i !== index))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setActions([...actions, { ...emptyAction }])}
+                  disabled={actions.length >= 20}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add step
+                </button>
+              </fieldset>
+            )}
+
+            {!isList && (
+              <fieldset className="space-y-4">
+                <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  JSON API (optional)
+                </legend>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  For storefronts that load prices from their own API after the page renders. Find the
+                  request in the DevTools Network tab; its JSON is read before the page, which is then
+                  only scraped as a fallback
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="col-span-2">
+                    <label htmlFor="apiUrlPattern" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Response URL Pattern
+                    </label>
+                    <input
+                      type="text"
+                      id="apiUrlPattern"
+                      name="apiUrlPattern"
+                      value={formData.apiUrlPattern}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="/api/products/ or /graphql.*Product/"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="apiPricePath" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Price JSONPath
+                    </label>
+                    <input
+                      type="text"
+                      id="apiPricePath"
+                      name="apiPricePath"
+                      value={formData.apiPricePath}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="$.product.price.amount"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="apiCurrencyPath" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Currency JSONPath
+                    </label>
+                    <input
+                      type="text"
+                      id="apiCurrencyPath"
+                      name="apiCurrencyPath"
+                      value={formData.apiCurrencyPath}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="$.product.price.currency"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="apiNamePath" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Name JSONPath
+                    </label>
+                    <input
+                      type="text"
+                      id="apiNamePath"
+                      name="apiNamePath"
+                      value={formData.apiNamePath}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="$.product.title"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="apiAvailabilityPath" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Stock JSONPath
+                    </label>
+                    <input
+                      type="text"
+                      id="apiAvailabilityPath"
+                      name="apiAvailabilityPath"
+                      value={formData.apiAvailabilityPath}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="$.product.inStock"
+                    />
+                  </div>
+                </div>
+              </fieldset>
+            )}
+
+            {!isList && (
+              <div>
+                <label htmlFor="fetchMode" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Fetch Mode
+                </label>
+                <select
+                  id="fetchMode"
+                  name="fetchMode"
+                  value={formData.fetchMode}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="browser">Browser</option>
+                  <option value="http">Plain HTTP (faster, browser as fallback)</option>
+                </select>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  Plain HTTP reads the page HTML without running its scripts. Use it for server-rendered shops;
+                  a JSON API pattern always needs the browser
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="locale" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Price Locale (optional)
+              </label>
+              <input
+                type="text"
+                id="locale"
+                name="locale"
+                value={formData.locale}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                placeholder="de-DE, en-IN, fr-CH"
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                How the site writes numbers, e.g. de-DE for &quot;1.299,00 €&quot;. Also tells &quot;$&quot; apart (en-CA means CAD)
+              </p>
             </div>
 
+            <div>
+              <label htmlFor="proxyPool" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Proxy Pool (optional)
+              </label>
+              <input
+                type="text"
+                id="proxyPool"
+                name="proxyPool"
+                value={formData.proxyPool}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                placeholder="residential"
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Name of a pool configured on the scraper. Leave empty to use the pool assigned to this domain, if any
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="profiles" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Emulation Profiles (optional)
+              </label>
+              <input
+                type="text"
+                id="profiles"
+                name="profiles"
+                value={formData.profiles}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                placeholder="desktop, mobile, de-mobile"
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Comma-separated profiles configured on the scraper (device, region, language). Each one is scraped and recorded separately
+              </p>
+            </div>
+
+            <div className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                id="ignoreRobots"
+                name="ignoreRobots"
+                checked={formData.ignoreRobots}
+                onChange={(e) => setFormData({ ...formData, ignoreRobots: e.target.checked })}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="ignoreRobots" className="text-sm text-gray-700 dark:text-gray-300">
+                Ignore robots.txt
+                <span className="block text-gray-500 dark:text-gray-400">
+                  Only when the site has allowed you to scrape it. The crawl delay and request spacing still apply
+                </span>
+              </label>
+            </div>
+
+            {!isList && (
+              <fieldset className="space-y-3">
+                <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Evidence
+                </legend>
+                <div>
+                  <label htmlFor="evidenceScreenshot" className="block text-sm text-gray-700 dark:text-gray-300 mb-1">
+                    Screenshot
+                  </label>
+                  <select
+                    id="evidenceScreenshot"
+                    name="evidenceScreenshot"
+                    value={formData.evidenceScreenshot}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  >
+                    <option value="">None</option>
+                    <option value="page">Full page</option>
+                    <option value="element">Price element</option>
+                  </select>
+                </div>
+                <div className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    id="evidenceHtml"
+                    name="evidenceHtml"
+                    checked={formData.evidenceHtml}
+                    onChange={(e) => setFormData({ ...formData, evidenceHtml: e.target.checked })}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label htmlFor="evidenceHtml" className="text-sm text-gray-700 dark:text-gray-300">
+                    Keep an HTML snapshot
+                  </label>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Stored with every price so a suspicious value can be checked against the page. Failed scrapes always keep both
+                </p>
+              </fieldset>
+            )}
+
             <div className="flex gap-4">
               <button
                 type="button"
@@ -222,7 +898,8 @@ export default function AddCompetitorPage() {
               Finding CSS Selectors
             </h3>
             <p className="text-sm text-blue-800 dark:text-blue-200 mb-2">
-              To find the CSS selector for an element:
+              Click &quot;Detect selectors&quot; after entering the URL to get ranked suggestions.
+              To find the CSS selector for an element yourself:
             </p>
             <ol className="list-decimal list-inside text-sm text-blue-800 dark:text-blue-200 space-y-1">
               <li>Open the product page in your browser</li>
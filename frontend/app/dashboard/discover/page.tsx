@@ -0,0 +1,523 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, Loader2, MapIcon, Search } from 'lucide-react'
+
+type DiscoveryMode = 'sitemap' | 'crawl'
+
+type PriceSelectorType = 'css' | 'xpath' | 'regex'
+
+type FetchMode = 'browser' | 'http'
+
+interface DiscoveredProduct {
+  url: string
+  title?: string
+  foundOn: string
+  tracked: boolean
+}
+
+interface DiscoveryJob {
+  id: string
+  status: 'queued' | 'running' | 'completed' | 'cancelled' | 'failed'
+  pagesFetched: number
+  products: DiscoveredProduct[]
+  truncated: boolean
+  error?: string
+}
+
+const POLL_INTERVAL = 2000
+
+// Most products /api/competitors/bulk takes per request
+const BULK_BATCH_SIZE = 500
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white'
+
+// Patterns are entered one per line or comma-separated
+const toPatterns = (value: string) => value.split(/[\n,]/).map((pattern) => pattern.trim()).filter(Boolean)
+
+// A product without a title is named after the last part of its path
+const productLabel = (product: DiscoveredProduct) =>
+  product.title || decodeURIComponent(new URL(product.url).pathname.split('/').filter(Boolean).pop() || product.url)
+
+export default function DiscoverCompetitorsPage() {
+  const router = useRouter()
+  const [search, setSearch] = useState({
+    url: '',
+    mode: 'sitemap' as DiscoveryMode,
+    include: '',
+    exclude: '',
+    maxProducts: '',
+    fetchTitles: false,
+  })
+  const [config, setConfig] = useState({
+    fetchMode: 'http' as FetchMode,
+    priceSelector: '',
+    priceSelectorType: 'css' as PriceSelectorType,
+    nameSelector: '',
+    imageSelector: '',
+    availabilitySelector: '',
+    locale: '',
+    profiles: '',
+  })
+  const [job, setJob] = useState<DiscoveryJob | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [error, setError] = useState('')
+  const [isStarting, setIsStarting] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const isRunning = job?.status === 'queued' || job?.status === 'running'
+  const selectable = job?.products.filter((product) => !product.tracked) || []
+
+  // Poll until the discovery finishes, then preselect every product not yet tracked
+  useEffect(() => {
+    if (!job || !isRunning) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/discover/${job.id}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to fetch discovery progress')
+          setJob(null)
+          return
+        }
+
+        const next: DiscoveryJob = data.job
+        setJob(next)
+        if (next.status !== 'queued' && next.status !== 'running') {
+          setSelected(new Set(next.products.filter((product) => !product.tracked).map((product) => product.url)))
+        }
+      } catch (err) {
+        setError('An error occurred while fetching discovery progress.')
+        setJob(null)
+      }
+    }, POLL_INTERVAL)
+
+    return () => clearTimeout(timer)
+  }, [job, isRunning])
+
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setSearch({
+      ...search,
+      [e.target.name]: e.target.value,
+    })
+  }
+
+  const handleConfigChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setConfig({
+      ...config,
+      [e.target.name]: e.target.value,
+    })
+  }
+
+  const toggleProduct = (url: string) => {
+    const next = new Set(selected)
+    if (next.has(url)) {
+      next.delete(url)
+    } else {
+      next.add(url)
+    }
+    setSelected(next)
+  }
+
+  const handleDiscover = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsStarting(true)
+    setSelected(new Set())
+
+    try {
+      const response = await fetch('/api/discover', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          url: search.url,
+          mode: search.mode,
+          include: toPatterns(search.include),
+          exclude: toPatterns(search.exclude),
+          maxProducts: search.maxProducts ? parseInt(search.maxProducts) : undefined,
+          fetchTitles: search.fetchTitles,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to start discovery')
+        return
+      }
+
+      setJob(data.job)
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!job) return
+    setError('')
+    setIsCreating(true)
+
+    const products = job.products
+      .filter((product) => selected.has(product.url))
+      .map((product) => ({ name: productLabel(product), url: product.url }))
+    const bulkConfig = {
+      ...config,
+      profiles: config.profiles.split(',').map((name) => name.trim()).filter(Boolean),
+    }
+
+    try {
+      for (let start = 0; start < products.length; start += BULK_BATCH_SIZE) {
+        const response = await fetch('/api/competitors/bulk', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            products: products.slice(start, start + BULK_BATCH_SIZE),
+            config: bulkConfig,
+          }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          const message = data.error || 'Failed to add competitors'
+          // Earlier batches are already tracked and are skipped if the user tries again
+          setError(start > 0 ? `${message} (the first ${start} products were added)` : message)
+          return
+        }
+      }
+
+      router.push('/dashboard')
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16 items-center">
+            <Link
+              href="/dashboard"
+              className="flex items-center gap-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              Back to Dashboard
+            </Link>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+              Discover Products
+            </h1>
+            <div className="w-24"></div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+            Find a Competitor&apos;s Products
+          </h2>
+
+          <form onSubmit={handleDiscover} className="space-y-6">
+            <div>
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Where to Look
+              </span>
+              <div className="flex gap-4">
+                {([
+                  ['sitemap', 'Sitemap', MapIcon],
+                  ['crawl', 'Crawl a category', Search],
+                ] as const).map(([mode, label, Icon]) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setSearch({ ...search, mode })}
+                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md border transition-colors ${
+                      search.mode === mode
+                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                        : 'border-gray-300 text-gray-700 hover:border-blue-400 dark:border-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {search.mode === 'sitemap' ? 'Domain or Sitemap URL *' : 'Category Page URL *'}
+              </label>
+              <input
+                type="text"
+                id="url"
+                name="url"
+                required
+                value={search.url}
+                onChange={handleSearchChange}
+                className={inputClassName}
+                placeholder={search.mode === 'sitemap' ? 'shop.example.com' : 'https://shop.example.com/collections/shoes'}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="include" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Only URLs Containing (optional)
+                </label>
+                <textarea
+                  id="include"
+                  name="include"
+                  rows={2}
+                  value={search.include}
+                  onChange={handleSearchChange}
+                  className={inputClassName}
+                  placeholder="/products/, /shoes-.*\.html$/"
+                />
+              </div>
+              <div>
+                <label htmlFor="exclude" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Skip URLs Containing (optional)
+                </label>
+                <textarea
+                  id="exclude"
+                  name="exclude"
+                  rows={2}
+                  value={search.exclude}
+                  onChange={handleSearchChange}
+                  className={inputClassName}
+                  placeholder="gift-card, /sample/"
+                />
+              </div>
+            </div>
+            <p className="-mt-4 text-sm text-gray-500 dark:text-gray-400">
+              One pattern per line or comma-separated; wrap a pattern in slashes for a regular expression.
+              Without include patterns, URLs that look like product pages are kept
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+              <div>
+                <label htmlFor="maxProducts" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Maximum Products
+                </label>
+                <input
+                  type="number"
+                  id="maxProducts"
+                  name="maxProducts"
+                  min={1}
+                  max={5000}
+                  value={search.maxProducts}
+                  onChange={handleSearchChange}
+                  className={inputClassName}
+                  placeholder="500"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <input
+                  type="checkbox"
+                  id="fetchTitles"
+                  checked={search.fetchTitles}
+                  onChange={(e) => setSearch({ ...search, fetchTitles: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <label htmlFor="fetchTitles" className="text-sm text-gray-700 dark:text-gray-300">
+                  Open untitled products to read their names (slower)
+                </label>
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isStarting || isRunning}
+              className="w-full flex justify-center items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isStarting || isRunning ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {job ? `Searching... ${job.pagesFetched} pages, ${job.products.length} products` : 'Starting...'}
+                </>
+              ) : (
+                'Find Products'
+              )}
+            </button>
+          </form>
+        </div>
+
+        {job && !isRunning && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                {job.products.length} Products Found
+              </h2>
+              <div className="flex gap-3 text-sm">
+                <button
+                  type="button"
+                  onClick={() => setSelected(new Set(selectable.map((product) => product.url)))}
+                  className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                >
+                  Select all
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSelected(new Set())}
+                  className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                >
+                  Select none
+                </button>
+              </div>
+            </div>
+
+            {job.status === 'failed' && (
+              <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+                Discovery failed: {job.error}
+              </p>
+            )}
+            {job.truncated && (
+              <p className="mb-4 text-sm text-yellow-700 dark:text-yellow-400">
+                Stopped at the product limit; narrow the patterns or raise the maximum to see the rest.
+              </p>
+            )}
+
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+              {job.products.map((product) => (
+                <li key={product.url} className="flex items-center gap-3 px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(product.url)}
+                    disabled={product.tracked}
+                    onChange={() => toggleProduct(product.url)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                      {productLabel(product)}
+                    </p>
+                    <a
+                      href={product.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block truncate text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400"
+                    >
+                      {product.url}
+                    </a>
+                  </div>
+                  {product.tracked && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Already tracked</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <h3 className="mt-6 mb-2 font-semibold text-gray-900 dark:text-white">
+              Shared Selector Configuration
+            </h3>
+            <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+              Products of one shop share a page layout, so every selected product is tracked with these settings.
+              Leave the price selector empty to rely on site adapters and structured data
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="priceSelector" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Price Selector
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    name="priceSelectorType"
+                    value={config.priceSelectorType}
+                    onChange={handleConfigChange}
+                    className="px-2 py-2 border border-gray-300 dark:border-gray-700 rounded-md dark:bg-gray-700 dark:text-white"
+                  >
+                    <option value="css">CSS</option>
+                    <option value="xpath">XPath</option>
+                    <option value="regex">Regex</option>
+                  </select>
+                  <input
+                    type="text"
+                    id="priceSelector"
+                    name="priceSelector"
+                    value={config.priceSelector}
+                    onChange={handleConfigChange}
+                    className={inputClassName}
+                    placeholder=".price"
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="fetchMode" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Fetch Mode
+                </label>
+                <select
+                  id="fetchMode"
+                  name="fetchMode"
+                  value={config.fetchMode}
+                  onChange={handleConfigChange}
+                  className={inputClassName}
+                >
+                  <option value="http">HTTP (fast, server-rendered pages)</option>
+                  <option value="browser">Browser</option>
+                </select>
+              </div>
+              {([
+                ['nameSelector', 'Product Name Selector', 'h1, .product-title'],
+                ['imageSelector', 'Image Selector', '.product-image img'],
+                ['availabilitySelector', 'Stock Selector', '.stock-status'],
+                ['locale', 'Price Locale', 'de-DE'],
+                ['profiles', 'Emulation Profiles', 'desktop, mobile'],
+              ] as const).map(([field, label, placeholder]) => (
+                <div key={field}>
+                  <label htmlFor={field} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {label}
+                  </label>
+                  <input
+                    type="text"
+                    id={field}
+                    name={field}
+                    value={config[field]}
+                    onChange={handleConfigChange}
+                    className={inputClassName}
+                    placeholder={placeholder}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isCreating || selected.size === 0}
+              className="mt-6 w-full flex justify-center items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCreating ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                `Track ${selected.size} Selected Product${selected.size === 1 ? '' : 's'}`
+              )}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -4,22 +4,44 @@ import { useEffect, useState } from 'react'
 import { useSession, signOut } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Plus, LogOut, TrendingUp, DollarSign, AlertCircle } from 'lucide-react'
-import { formatPrice, getChangeColor, getChangeIcon } from '@/lib/utils'
+import { Plus, LogOut, TrendingUp, DollarSign, AlertCircle, RefreshCw, Camera, FileCode, Search } from 'lucide-react'
+import { classifyPriceChange, formatPrice, getAvailabilityBadge, getChangeColor, getChangeIcon } from '@/lib/utils'
 
 interface Competitor {
   id: string
   name: string
   url: string
+  mode: 'product' | 'list'
   productName?: string
   priceRecords: Array<{
     id: string
     price: number
+    originalPrice?: number | null
+    discountPercent?: number | null
+    availability?: string | null
     currency: string
+    profile?: string | null
     scrapedAt: string
+    rawData?: {
+      evidence?: {
+        screenshot?: { id: string }
+        html?: { id: string }
+      }
+    } | null
+  }>
+  products: Array<{
+    id: string
+    name?: string | null
+    url?: string | null
+    lastSeenAt: string
+    priceRecords: Array<{
+      price: number
+      currency: string
+    }>
   }>
   _count: {
     priceRecords: number
+    products: number
   }
 }
 
@@ -28,6 +50,7 @@ export default function DashboardPage() {
   const router = useRouter()
   const [competitors, setCompetitors] = useState<Competitor[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [refreshingId, setRefreshingId] = useState<string | null>(null)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -71,6 +94,28 @@ export default function DashboardPage() {
     }
   }
 
+  const handleRefresh = async (id: string) => {
+    setRefreshingId(id)
+
+    try {
+      const response = await fetch(`/api/competitors/${id}/refresh`, {
+        method: 'POST',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to refresh products')
+        return
+      }
+
+      await fetchCompetitors()
+    } catch (error) {
+      console.error('Error refreshing competitor:', error)
+    } finally {
+      setRefreshingId(null)
+    }
+  }
+
   if (status === 'loading' || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -79,8 +124,9 @@ export default function DashboardPage() {
     )
   }
 
+  // List-mode records belong to many different products, so they are left out of the total
   const latestPrice = competitors.reduce((sum, c) => {
-    const price = c.priceRecords[0]?.price || 0
+    const price = (c.mode !== 'list' && c.priceRecords[0]?.price) || 0
     return sum + Number(price)
   }, 0)
 
@@ -153,13 +199,22 @@ export default function DashboardPage() {
           <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
             Monitored Competitors
           </h2>
-          <Link
-            href="/dashboard/add"
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="w-5 h-5" />
-            Add Competitor
-          </Link>
+          <div className="flex gap-3">
+            <Link
+              href="/dashboard/discover"
+              className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+            >
+              <Search className="w-5 h-5" />
+              Discover Products
+            </Link>
+            <Link
+              href="/dashboard/add"
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              Add Competitor
+            </Link>
+          </div>
         </div>
 
         {competitors.length === 0 ? (
@@ -183,7 +238,10 @@ export default function DashboardPage() {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {competitors.map((competitor) => {
               const latestRecord = competitor.priceRecords[0]
-              const previousRecord = competitor.priceRecords[1]
+              // Compare with the previous check under the same emulation profile
+              const previousRecord = competitor.priceRecords.find(
+                (record, index) => index > 0 && record.profile === latestRecord.profile
+              )
               
               let priceChange = 0
               let percentChange = 0
@@ -193,6 +251,11 @@ export default function DashboardPage() {
                 percentChange = (priceChange / Number(previousRecord.price)) * 100
               }
 
+              const changeKind = latestRecord && previousRecord
+                ? classifyPriceChange(latestRecord, previousRecord)
+                : 'unchanged'
+              const availabilityBadge = getAvailabilityBadge(latestRecord?.availability)
+
               return (
                 <div
                   key={competitor.id}
@@ -204,6 +267,16 @@ export default function DashboardPage() {
                         {competitor.name}
                       </h3>
                       <div className="flex gap-2">
+                        {competitor.mode === 'list' && (
+                          <button
+                            onClick={() => handleRefresh(competitor.id)}
+                            disabled={refreshingId === competitor.id}
+                            className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                            title="Scrape the page now"
+                          >
+                            <RefreshCw className={`w-4 h-4 ${refreshingId === competitor.id ? 'animate-spin' : ''}`} />
+                          </button>
+                        )}
                         <Link
                           href={`/dashboard/${competitor.id}`}
                           className="text-blue-600 hover:text-blue-700 text-sm"
@@ -225,12 +298,59 @@ export default function DashboardPage() {
                       </p>
                     )}
 
-                    {latestRecord ? (
+                    {availabilityBadge && (
+                      <span className={`inline-block mb-3 px-2 py-0.5 text-xs font-medium rounded ${availabilityBadge.className}`}>
+                        {availabilityBadge.label}
+                      </span>
+                    )}
+
+                    {competitor.mode === 'list' ? (
+                      competitor._count.products > 0 ? (
+                        <div>
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                            {competitor._count.products} products tracked
+                          </p>
+                          <ul className="space-y-1">
+                            {competitor.products.map((product) => (
+                              <li key={product.id} className="flex justify-between gap-4 text-sm">
+                                <span className="truncate text-gray-900 dark:text-white" title={product.name || product.url || ''}>
+                                  {product.name || product.url}
+                                </span>
+                                {product.priceRecords[0] && (
+                                  <span className="font-medium text-gray-900 dark:text-white">
+                                    {formatPrice(Number(product.priceRecords[0].price), product.priceRecords[0].currency)}
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                          <div className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                            Last updated: {new Date(competitor.products[0].lastSeenAt).toLocaleString()}
+                          </div>
+                        </div>
+                      ) : (
+                        <p className="text-gray-500 dark:text-gray-400">
+                          No products found yet
+                        </p>
+                      )
+                    ) : latestRecord ? (
                       <div>
                         <div className="flex items-center justify-between mb-2">
-                          <span className="text-3xl font-bold text-gray-900 dark:text-white">
-                            {formatPrice(Number(latestRecord.price), latestRecord.currency)}
-                          </span>
+                          <div className="flex items-baseline gap-2">
+                            <span className="text-3xl font-bold text-gray-900 dark:text-white">
+                              {formatPrice(Number(latestRecord.price), latestRecord.currency)}
+                            </span>
+                            {latestRecord.originalPrice != null && (
+                              <span className="text-sm text-gray-500 dark:text-gray-400 line-through">
+                                {formatPrice(Number(latestRecord.originalPrice), latestRecord.currency)}
+                              </span>
+                            )}
+                            {latestRecord.discountPercent != null && (
+                              <span className="px-1.5 py-0.5 text-xs font-medium rounded bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300">
+                                -{Number(latestRecord.discountPercent).toFixed(0)}%
+                              </span>
+                            )}
+                          </div>
                           {previousRecord && (
                             <div className={`flex items-center gap-1 ${getChangeColor(priceChange)}`}>
                               <span>{getChangeIcon(priceChange)}</span>
@@ -241,14 +361,55 @@ export default function DashboardPage() {
                           )}
                         </div>
 
-                        {previousRecord && (
+                        {previousRecord && changeKind === 'promotion-started' && (
+                          <div className="text-sm text-orange-600 dark:text-orange-400">
+                            Promotion started
+                          </div>
+                        )}
+
+                        {previousRecord && changeKind === 'promotion-ended' && (
+                          <div className="text-sm text-gray-600 dark:text-gray-400">
+                            Promotion ended
+                          </div>
+                        )}
+
+                        {previousRecord && (changeKind === 'price-change' || changeKind === 'unchanged') && (
                           <div className={`text-sm ${getChangeColor(priceChange)}`}>
                             {getChangeIcon(priceChange)} {formatPercentChange(percentChange)} from last check
                           </div>
                         )}
 
-                        <div className="mt-3 text-xs text-gray-500 dark:text-gray-400">
-                          Last updated: {new Date(latestRecord.scrapedAt).toLocaleString()}
+                        <div className="mt-3 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                          <span>
+                            Last updated: {new Date(latestRecord.scrapedAt).toLocaleString()}
+                            {latestRecord.profile && ` (${latestRecord.profile})`}
+                          </span>
+                          <div className="flex items-center gap-3">
+                            {latestRecord.rawData?.evidence?.screenshot && (
+                              <a
+                                href={`/api/price-records/${latestRecord.id}/evidence/screenshot`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 hover:text-blue-600"
+                                title="Screenshot"
+                              >
+                                <Camera className="w-3.5 h-3.5" />
+                                Screenshot
+                              </a>
+                            )}
+                            {latestRecord.rawData?.evidence?.html && (
+                              <a
+                                href={`/api/price-records/${latestRecord.id}/evidence/html`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 hover:text-blue-600"
+                                title="HTML snapshot"
+                              >
+                                <FileCode className="w-3.5 h-3.5" />
+                                HTML
+                              </a>
+                            )}
+                          </div>
                         </div>
                       </div>
                     ) : (
@@ -0,0 +1,71 @@
+import { z } from 'zod'
+
+// Steps the scraper runs on a product page before reading it: cookie banners,
+// region pickers, variant dropdowns. Mirrors PageAction in the scraper service.
+export const pageActionTypes = ['click', 'fill', 'select', 'press', 'waitForSelector', 'wait', 'scroll'] as const
+
+export type PageActionType = (typeof pageActionTypes)[number]
+
+export const pageActionLabels: Record<PageActionType, string> = {
+  click: 'Click',
+  fill: 'Type text',
+  select: 'Select option',
+  press: 'Press key',
+  waitForSelector: 'Wait for element',
+  wait: 'Wait',
+  scroll: 'Scroll',
+}
+
+const actionOptions = {
+  timeout: z.number().int().min(1).max(60000).optional(),
+  optional: z.boolean().optional(),
+}
+
+export const pageActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('click'), selector: z.string().min(1), ...actionOptions }),
+  z.object({ type: z.literal('fill'), selector: z.string().min(1), value: z.string(), ...actionOptions }),
+  z.object({ type: z.literal('select'), selector: z.string().min(1), value: z.string().min(1), ...actionOptions }),
+  z.object({ type: z.literal('press'), key: z.string().min(1), selector: z.string().optional(), ...actionOptions }),
+  z.object({
+    type: z.literal('waitForSelector'),
+    selector: z.string().min(1),
+    state: z.enum(['attached', 'detached', 'visible', 'hidden']).optional(),
+    ...actionOptions,
+  }),
+  z.object({ type: z.literal('wait'), ms: z.number().int().min(0).max(30000), ...actionOptions }),
+  z.object({ type: z.literal('scroll'), selector: z.string().optional(), ...actionOptions }),
+])
+
+export type PageAction = z.infer<typeof pageActionSchema>
+
+// One editable step in the add-competitor form; `value` holds the text, option, key or milliseconds
+export interface PageActionDraft {
+  type: PageActionType
+  selector: string
+  value: string
+  timeout: string
+  optional: boolean
+}
+
+// Turn a form step into an action, dropping the fields its type does not use
+export function toPageAction(draft: PageActionDraft): PageAction {
+  const options = {
+    timeout: draft.timeout ? parseInt(draft.timeout) : undefined,
+    optional: draft.optional || undefined,
+  }
+
+  switch (draft.type) {
+    case 'click':
+    case 'waitForSelector':
+      return { type: draft.type, selector: draft.selector, ...options }
+    case 'fill':
+    case 'select':
+      return { type: draft.type, selector: draft.selector, value: draft.value, ...options }
+    case 'press':
+      return { type: 'press', key: draft.value, selector: draft.selector || undefined, ...options }
+    case 'wait':
+      return { type: 'wait', ms: parseInt(draft.value) || 0, ...options }
+    case 'scroll':
+      return { type: 'scroll', selector: draft.selector || undefined, ...options }
+  }
+}
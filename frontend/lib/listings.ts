@@ -0,0 +1,151 @@
+import { prisma } from '@/lib/prisma'
+import { callScraper } from '@/lib/scraper'
+
+// One product as returned by the scraper's POST /scrape/list
+export interface ListedProduct {
+  matchKey: string
+  name?: string
+  url?: string
+  imageUrl?: string
+  price?: number
+  currency?: string
+  rawPrice?: string
+  page: number
+  error?: string
+}
+
+// Build the /scrape/list request body for a list-mode competitor, under one of its emulation profiles
+export function toScrapeListRequest(competitor: {
+  url: string
+  itemSelector: string | null
+  priceSelector: string | null
+  nameSelector: string | null
+  linkSelector: string | null
+  imageSelector: string | null
+  nextPageSelector: string | null
+  maxPages: number | null
+  locale: string | null
+  proxyPool: string | null
+  ignoreRobots: boolean
+}, profile?: string) {
+  return {
+    url: competitor.url,
+    itemSelector: competitor.itemSelector,
+    fields: {
+      price: competitor.priceSelector,
+      name: competitor.nameSelector || undefined,
+      link: competitor.linkSelector || undefined,
+      image: competitor.imageSelector || undefined,
+    },
+    pagination: competitor.nextPageSelector
+      ? { nextSelector: competitor.nextPageSelector, maxPages: competitor.maxPages || undefined }
+      : undefined,
+    locale: competitor.locale || undefined,
+    proxyPool: competitor.proxyPool || undefined,
+    profile,
+    ignoreRobots: competitor.ignoreRobots,
+  }
+}
+
+type ListCompetitor = Parameters<typeof toScrapeListRequest>[0] & {
+  id: string
+  profiles: string[]
+}
+
+// Scrape a list-mode competitor's page under each of its emulation profiles and record every
+// product on it. Stops at the first profile the scraper fails on.
+export async function refreshListCompetitor(competitor: ListCompetitor) {
+  // No profiles means a single scrape with the scraper's default browser
+  const profiles = competitor.profiles.length > 0 ? competitor.profiles : [undefined]
+  const totals = { pages: 0, products: 0, recorded: 0 }
+
+  for (const profile of profiles) {
+    const { status, data } = await callScraper('/scrape/list', toScrapeListRequest(competitor, profile))
+
+    if (!data.success) {
+      return {
+        error: (data.error as string) || 'List scrape failed',
+        status: status >= 400 && status < 500 ? status : 502,
+        profile,
+      }
+    }
+
+    const summary = await recordListedProducts(competitor.id, data.data.products, profile)
+    totals.pages += data.data.pages
+    totals.products += summary.products
+    totals.recorded += summary.recorded
+  }
+
+  return { totals }
+}
+
+// Match scraped products to the competitor's tracked products and record their prices.
+// Products are matched by key (URL when the item has a link) and, failing that, by name,
+// so a product whose URL changed keeps its history. Prices are tagged with the emulation
+// profile they were seen under.
+export async function recordListedProducts(competitorId: string, listed: ListedProduct[], profile?: string) {
+  const scrapedAt = new Date()
+  let recorded = 0
+
+  for (const product of listed) {
+    const existing =
+      (await prisma.competitorProduct.findUnique({
+        where: { competitorId_matchKey: { competitorId, matchKey: product.matchKey } },
+      })) ||
+      (product.name
+        ? await prisma.competitorProduct.findFirst({
+            where: {
+              competitorId,
+              name: { equals: product.name, mode: 'insensitive' },
+              // Never merge two products that are both on the page right now
+              lastSeenAt: { lt: scrapedAt },
+            },
+          })
+        : null)
+
+    const tracked = existing
+      ? await prisma.competitorProduct.update({
+          where: { id: existing.id },
+          data: {
+            matchKey: product.matchKey,
+            name: product.name || existing.name,
+            url: product.url || existing.url,
+            imageUrl: product.imageUrl || existing.imageUrl,
+            lastSeenAt: scrapedAt,
+          },
+        })
+      : await prisma.competitorProduct.create({
+          data: {
+            competitorId,
+            matchKey: product.matchKey,
+            name: product.name,
+            url: product.url,
+            imageUrl: product.imageUrl,
+            firstSeenAt: scrapedAt,
+            lastSeenAt: scrapedAt,
+          },
+        })
+
+    if (product.price === undefined) {
+      continue // Seen on the page, but its price could not be read
+    }
+
+    await prisma.priceRecord.create({
+      data: {
+        competitorId,
+        productId: tracked.id,
+        price: product.price,
+        currency: product.currency || 'USD',
+        productName: product.name,
+        imageUrl: product.imageUrl,
+        // Spread into a plain object, which fits Prisma's JSON input type where the interface does not
+        rawData: { ...product },
+        profile,
+        scrapedAt,
+      },
+    })
+    recorded++
+  }
+
+  return { products: listed.length, recorded }
+}
@@ -0,0 +1,38 @@
+const SCRAPER_API_URL = process.env.SCRAPER_API_URL || 'http://localhost:3000'
+const SCRAPER_API_KEY = process.env.SCRAPER_API_KEY || ''
+
+// Call the scraper service and return its JSON body along with the HTTP status
+export async function callScraper<T = any>(
+  path: string,
+  body: unknown
+): Promise<{ status: number; data: T }> {
+  const response = await fetch(`${SCRAPER_API_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': SCRAPER_API_KEY,
+    },
+    body: JSON.stringify(body),
+    cache: 'no-store',
+  })
+
+  return { status: response.status, data: await response.json() }
+}
+
+// GET a JSON resource from the scraper service, such as a background job's progress
+export async function getFromScraper<T = any>(path: string): Promise<{ status: number; data: T }> {
+  const response = await fetch(`${SCRAPER_API_URL}${path}`, {
+    headers: { 'x-api-key': SCRAPER_API_KEY },
+    cache: 'no-store',
+  })
+
+  return { status: response.status, data: await response.json() }
+}
+
+// Fetch a stored screenshot or HTML snapshot from the scraper's artifact store
+export async function fetchScraperArtifact(id: string): Promise<Response> {
+  return fetch(`${SCRAPER_API_URL}/artifacts/${encodeURIComponent(id)}`, {
+    headers: { 'x-api-key': SCRAPER_API_KEY },
+    cache: 'no-store',
+  })
+}
@@ -39,3 +39,41 @@ export function getChangeIcon(change: number): string {
   if (change < 0) return '↓'
   return '→'
 }
+
+export type PriceChangeKind = 'promotion-started' | 'promotion-ended' | 'price-change' | 'unchanged'
+
+// Tell a markdown (list price still shown) apart from a change of the regular price
+export function classifyPriceChange(
+  latest: { price: number; originalPrice?: number | null },
+  previous: { price: number; originalPrice?: number | null }
+): PriceChangeKind {
+  const wasOnSale = previous.originalPrice != null
+  const isOnSale = latest.originalPrice != null
+
+  if (isOnSale && !wasOnSale) return 'promotion-started'
+  if (!isOnSale && wasOnSale) return 'promotion-ended'
+  if (Number(latest.price) !== Number(previous.price)) return 'price-change'
+  return 'unchanged'
+}
+
+const availabilityLabels: Record<string, { label: string; className: string }> = {
+  in_stock: { label: 'In stock', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  out_of_stock: { label: 'Out of stock', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  preorder: { label: 'Pre-order', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+  backorder: { label: 'Backorder', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' },
+}
+
+export function getAvailabilityBadge(availability?: string | null): { label: string; className: string } | null {
+  return (availability && availabilityLabels[availability]) || null
+}
+
+// Regex price selectors are compiled by the scraper; reject broken ones when they are saved
+export function isValidRegex(pattern?: string): boolean {
+  if (!pattern) return false
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
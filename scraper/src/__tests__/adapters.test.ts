@@ -0,0 +1,267 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { JSDOM } from 'jsdom';
+import { findAdapter, readWithAdapter } from '../adapters';
+import { AdapterPage, SiteAdapter } from '../adapters/adapter';
+import { amazonAdapter } from '../adapters/amazon';
+import { magentoAdapter } from '../adapters/magento';
+import { shopifyAdapter } from '../adapters/shopify';
+import { wooCommerceAdapter } from '../adapters/woocommerce';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'adapters');
+
+function fixture(name: string): string {
+  return readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+// A page as the scraper hands it to adapters, answering JSON requests from a map of URLs
+function loadPage(url: string, file: string, json: Record<string, unknown> = {}): AdapterPage {
+  const html = fixture(file);
+  return {
+    url,
+    html,
+    document: new JSDOM(html, { url }).window.document,
+    fetchJson: jest.fn(async (target: string) => json[target] ?? null),
+  };
+}
+
+function extract(adapter: SiteAdapter, page: AdapterPage) {
+  return adapter.extract(page, {});
+}
+
+const SHOPIFY_URL = 'https://outfitters.example/products/classic-tee';
+const SHOPIFY_JSON = {
+  'https://outfitters.example/products/classic-tee.js': JSON.parse(fixture('shopify-product.js.json')),
+};
+
+describe('findAdapter', () => {
+  it.each([
+    [SHOPIFY_URL, 'shopify-product.html', 'shopify'],
+    ['https://homeware.example/product/ceramic-mug/', 'woocommerce-simple.html', 'woocommerce'],
+    ['https://homeware.example/product/linen-shirt/', 'woocommerce-variable.html', 'woocommerce'],
+    ['https://outdoor.example/wanderjacke.html', 'magento-configurable.html', 'magento'],
+    ['https://www.amazon.com/dp/B0BOTTLE01', 'amazon-product.html', 'amazon'],
+    // Amazon's layout on a marketplace built on it
+    ['https://marketplace.example/item/1', 'amazon-product.html', 'amazon'],
+  ])('%s with %s is read by the %s adapter', (url, file, name) => {
+    expect(findAdapter(url, fixture(file))?.name).toBe(name);
+  });
+
+  it('leaves Shopify pages other than products alone', () => {
+    expect(findAdapter('https://outfitters.example/collections/tees', fixture('shopify-product.html'))).toBeNull();
+  });
+
+  it('knows no adapter for a plain page or a bad URL', () => {
+    const plain = '<html><body><span class="price">$5</span></body></html>';
+    expect(findAdapter('https://shop.example/p/1', plain)).toBeNull();
+    expect(findAdapter('not a url', fixture('amazon-product.html'))).toBeNull();
+  });
+});
+
+describe('shopifyAdapter', () => {
+  it('reads the variant in the URL from the .js twin, in the active currency', async () => {
+    const page = loadPage(`${SHOPIFY_URL}?variant=222`, 'shopify-product.html', SHOPIFY_JSON);
+    const data = await extract(shopifyAdapter, page);
+
+    expect(page.fetchJson).toHaveBeenCalledWith('https://outfitters.example/products/classic-tee.js');
+    expect(data).toMatchObject({
+      price: 19.99,
+      currency: 'CAD',
+      rawPrice: '1999',
+      originalPrice: 25,
+      rawOriginalPrice: '2500',
+      productName: 'Classic Tee',
+      imageUrl: 'https://cdn.shopify.com/s/files/1/0001/products/tee-black-m.jpg',
+      availability: 'in_stock',
+      rawAvailability: 'available: true',
+      images: [
+        'https://cdn.shopify.com/s/files/1/0001/products/tee-black.jpg',
+        'https://cdn.shopify.com/s/files/1/0001/products/tee-white.jpg',
+      ],
+    });
+    expect(data?.variants).toEqual([
+      expect.objectContaining({
+        id: '111',
+        title: 'Small / Black',
+        price: 25,
+        availability: 'out_of_stock',
+        selected: false,
+      }),
+      expect.objectContaining({ id: '222', sku: 'TEE-M-BLK', price: 19.99, originalPrice: 25, selected: true }),
+      expect.objectContaining({ id: '333', sku: undefined, availability: 'in_stock', selected: false }),
+    ]);
+  });
+
+  it('picks the first variant in stock without one in the URL', async () => {
+    const data = await extract(shopifyAdapter, loadPage(SHOPIFY_URL, 'shopify-product.html', SHOPIFY_JSON));
+    expect(data?.variants?.find(variant => variant.selected)?.id).toBe('222');
+  });
+
+  it('reports a sold-out variant picked in the URL as out of stock', async () => {
+    const page = loadPage(`${SHOPIFY_URL}?variant=111`, 'shopify-product.html', SHOPIFY_JSON);
+    expect(await extract(shopifyAdapter, page)).toMatchObject({
+      price: 25,
+      originalPrice: undefined,
+      availability: 'out_of_stock',
+      imageUrl: 'https://cdn.shopify.com/s/files/1/0001/products/tee-black.jpg',
+    });
+  });
+
+  it('finds nothing when the .js twin cannot be fetched', async () => {
+    expect(await extract(shopifyAdapter, loadPage(SHOPIFY_URL, 'shopify-product.html'))).toBeNull();
+  });
+});
+
+describe('wooCommerceAdapter', () => {
+  it('reads the sale price, regular price, stock note and gallery of a simple product', async () => {
+    const data = await extract(
+      wooCommerceAdapter,
+      loadPage('https://homeware.example/product/ceramic-mug/', 'woocommerce-simple.html')
+    );
+
+    expect(data).toEqual({
+      price: 14.5,
+      currency: 'GBP',
+      rawPrice: '£14.50',
+      originalPrice: 18,
+      rawOriginalPrice: '£18.00',
+      productName: 'Ceramic Mug',
+      imageUrl: 'https://homeware.example/wp-content/uploads/mug.jpg',
+      availability: 'in_stock',
+      rawAvailability: '12 in stock',
+      images: [
+        'https://homeware.example/wp-content/uploads/mug.jpg',
+        'https://homeware.example/wp-content/uploads/mug-side.jpg',
+      ],
+    });
+  });
+
+  it('reports the cheapest variation in stock instead of the price range', async () => {
+    const data = await extract(
+      wooCommerceAdapter,
+      loadPage('https://homeware.example/product/linen-shirt/', 'woocommerce-variable.html')
+    );
+
+    expect(data).toMatchObject({
+      price: 38,
+      currency: 'EUR',
+      rawPrice: '38',
+      originalPrice: 42,
+      productName: 'Linen Shirt',
+      imageUrl: 'https://homeware.example/wp-content/uploads/shirt-m.jpg',
+      availability: 'in_stock',
+    });
+    expect(data?.variants).toEqual([
+      expect.objectContaining({
+        id: '781',
+        title: 'small',
+        sku: 'LS-S',
+        availability: 'out_of_stock',
+        selected: false,
+      }),
+      expect.objectContaining({ id: '782', price: 38, originalPrice: 42, selected: true }),
+      expect.objectContaining({ id: '783', sku: undefined, availability: 'backorder', imageUrl: undefined }),
+    ]);
+  });
+
+  it('reports the variation the URL picks', async () => {
+    const page = loadPage(
+      'https://homeware.example/product/linen-shirt/?attribute_pa_size=Large',
+      'woocommerce-variable.html'
+    );
+    expect(await extract(wooCommerceAdapter, page)).toMatchObject({
+      price: 45,
+      originalPrice: undefined,
+      availability: 'backorder',
+    });
+  });
+
+  it('finds nothing without a price block', async () => {
+    const html = '<html><body class="woocommerce"><div class="product"><div class="summary"></div></div></body></html>';
+    const page = { ...loadPage('https://homeware.example/p', 'woocommerce-simple.html'), html };
+    page.document = new JSDOM(html).window.document;
+    expect(await extract(wooCommerceAdapter, page)).toBeNull();
+  });
+});
+
+describe('magentoAdapter', () => {
+  it('reads the exact amounts, stock, gallery and configurable options', async () => {
+    const data = await extract(
+      magentoAdapter,
+      loadPage('https://outdoor.example/wanderjacke.html', 'magento-configurable.html')
+    );
+
+    expect(data).toEqual({
+      price: 1299.5,
+      currency: 'EUR',
+      rawPrice: '1.299,50 €',
+      originalPrice: 1499,
+      rawOriginalPrice: '1.499,00 €',
+      productName: 'Wanderjacke',
+      imageUrl: 'https://outdoor.example/media/catalog/product/j/a/jacke.jpg',
+      availability: 'in_stock',
+      rawAvailability: 'Auf Lager',
+      variants: [
+        { id: '601', title: 'Rot / M', price: 1299.5, originalPrice: 1499, availability: 'unknown' },
+        { id: '602', title: 'Rot / L', price: 1349, originalPrice: undefined, availability: 'unknown' },
+        { id: '603', title: 'Blau / M', price: 1299.5, originalPrice: 1499, availability: 'unknown' },
+      ],
+      images: [
+        'https://outdoor.example/media/catalog/product/j/a/jacke.jpg',
+        'https://outdoor.example/media/catalog/product/cache/i/jacke-2.jpg',
+      ],
+    });
+  });
+});
+
+describe('amazonAdapter', () => {
+  it('reads the buy box, list price, availability, images and swatches', async () => {
+    const data = await extract(amazonAdapter, loadPage('https://www.amazon.com/dp/B0BOTTLE01', 'amazon-product.html'));
+
+    expect(data).toEqual({
+      price: 24.99,
+      currency: 'USD',
+      rawPrice: '$24.99',
+      originalPrice: 29.99,
+      rawOriginalPrice: '$29.99',
+      productName: 'Stainless Steel Water Bottle, 750 ml',
+      imageUrl: 'https://m.media-amazon.com/images/I/bottle._AC_SL1500_.jpg',
+      availability: 'in_stock',
+      rawAvailability: 'In Stock',
+      variants: [
+        { id: 'B0BOTTLE01', title: 'Ocean Blue', availability: 'unknown', selected: true },
+        { id: 'B0BOTTLE02', title: 'Forest Green', availability: 'unknown', selected: undefined },
+        { id: 'B0BOTTLE03', title: 'Sunset Red', availability: 'out_of_stock', selected: undefined },
+      ],
+      images: [
+        'https://m.media-amazon.com/images/I/bottle._AC_SL1500_.jpg',
+        'https://m.media-amazon.com/images/I/bottle._AC_SX300_.jpg',
+        'https://m.media-amazon.com/images/I/bottle._AC_SX679_.jpg',
+      ],
+    });
+  });
+});
+
+describe('readWithAdapter', () => {
+  it('parses the HTML itself when no document is given', async () => {
+    const page = { url: 'https://www.amazon.com/dp/B0BOTTLE01', html: fixture('amazon-product.html') };
+    const read = await readWithAdapter({ ...page, fetchJson: async () => null }, {});
+    expect(read).toMatchObject({ adapter: 'amazon', data: { price: 24.99, currency: 'USD' } });
+  });
+
+  it('names the adapter but returns no data when the price is not where it expects', async () => {
+    const read = await readWithAdapter(
+      { url: SHOPIFY_URL, html: fixture('shopify-product.html'), fetchJson: async () => null },
+      {}
+    );
+    expect(read).toEqual({ adapter: 'shopify', data: null });
+  });
+
+  it('is null for pages no adapter knows', async () => {
+    const read = await readWithAdapter(
+      { url: 'https://shop.example/p/1', html: '<html></html>', fetchJson: async () => null },
+      {}
+    );
+    expect(read).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { classifyAvailabilityText, normalizeSchemaAvailability } from '../availability';
+import { Availability, AvailabilityKeywords } from '../types';
+
+describe('classifyAvailabilityText', () => {
+  it.each<[string, Availability]>([
+    ['In stock', 'in_stock'],
+    ['Only a few left!', 'in_stock'],
+    ['Add to Cart', 'in_stock'],
+    ['Auf Lager', 'in_stock'],
+    ['Disponible', 'in_stock'],
+    ['Out of stock', 'out_of_stock'],
+    ['Sold out', 'out_of_stock'],
+    ['Currently unavailable.', 'out_of_stock'],
+    ['Ausverkauft', 'out_of_stock'],
+    ['Pre-order now', 'preorder'],
+    ['Coming soon', 'preorder'],
+    ['Ships in 3-4 weeks', 'backorder'],
+    ['Free shipping on all orders', 'unknown'],
+    ['', 'unknown'],
+    // Negated in-stock phrases
+    ['Not in stock', 'out_of_stock'],
+    ['Item not  in   stock', 'out_of_stock'],
+    ['No disponible', 'out_of_stock'],
+    ['Producto no disponible', 'out_of_stock'],
+    ['Non disponibile', 'out_of_stock'],
+    ['Nicht mehr lieferbar', 'out_of_stock'],
+    ['Niet op voorraad', 'out_of_stock'],
+    ['Indisponible', 'out_of_stock'],
+    ['Sin stock', 'out_of_stock'],
+    // Whole words only
+    ['Restocking soon', 'unknown'],
+    ['Availableness', 'unknown'],
+    ['No returns. In stock', 'in_stock'],
+  ])('%j is %s', (text, availability) => {
+    expect(classifyAvailabilityText(text)).toBe(availability);
+  });
+
+  it('checks custom keywords alongside the defaults', () => {
+    const keywords: AvailabilityKeywords = { outOfStock: ['vergriffen'], inStock: ['ready to ship'] };
+    expect(classifyAvailabilityText('Leider vergriffen', keywords)).toBe('out_of_stock');
+    expect(classifyAvailabilityText('Ready to ship today', keywords)).toBe('in_stock');
+  });
+
+  it('escapes regex characters in custom keywords', () => {
+    expect(classifyAvailabilityText('Stock (low)', { inStock: ['stock (low)'] })).toBe('in_stock');
+  });
+});
+
+describe('normalizeSchemaAvailability', () => {
+  it.each<[string, Availability]>([
+    ['https://schema.org/InStock', 'in_stock'],
+    ['http://schema.org/OutOfStock', 'out_of_stock'],
+    ['LimitedAvailability', 'in_stock'],
+    ['instock', 'in_stock'],
+    ['oos', 'out_of_stock'],
+    ['PreOrder', 'preorder'],
+    ['BackOrder', 'backorder'],
+    ['something else', 'unknown'],
+  ])('%s is %s', (value, availability) => {
+    expect(normalizeSchemaAvailability(value)).toBe(availability);
+  });
+});
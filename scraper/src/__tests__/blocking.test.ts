@@ -0,0 +1,57 @@
+import { BlockSignals, detectBlock, isBlockedStatus } from '../blocking';
+
+function signals(overrides: Partial<BlockSignals>): BlockSignals {
+  return { status: 200, headers: {}, title: 'Blue Widget | Shop', html: '<html></html>', ...overrides };
+}
+
+describe('detectBlock', () => {
+  it.each<[string, Partial<BlockSignals>, string, string]>([
+    [
+      'a Cloudflare challenge header',
+      { headers: { 'cf-mitigated': 'challenge' } },
+      'cloudflare',
+      'cf-mitigated: challenge',
+    ],
+    ['the Cloudflare interstitial title', { title: 'Just a moment...' }, 'cloudflare', 'title "Just a moment..."'],
+    [
+      'DataDome markup',
+      { html: '<script src="https://ct.captcha-delivery.com/c.js"></script>' },
+      'datadome',
+      'challenge markup',
+    ],
+    ['a PerimeterX captcha', { html: '<div id="px-captcha"></div>' }, 'perimeterx', 'challenge markup'],
+    ['an Imperva incident', { html: 'Incapsula incident ID: 123' }, 'imperva', 'challenge markup'],
+    ['an AWS WAF captcha', { headers: { 'x-amzn-waf-action': 'captcha' } }, 'aws-waf', 'x-amzn-waf-action: captcha'],
+    ['a 403 behind Cloudflare', { status: 403, headers: { server: 'cloudflare' } }, 'cloudflare', 'HTTP 403'],
+    ['a 429 with a reCAPTCHA', { status: 429, html: '<div class="g-recaptcha"></div>' }, 'recaptcha', 'HTTP 429'],
+    ['an "Access Denied" title', { title: 'Access Denied' }, 'unknown', 'title "Access Denied"'],
+    ['a "Security check" title', { title: 'Security Check - Shop' }, 'unknown', 'title "Security Check - Shop"'],
+    ['a bare "Captcha" title', { title: 'CAPTCHA' }, 'unknown', 'title "CAPTCHA"'],
+  ])('recognises %s', (_case, overrides, vendor, reason) => {
+    expect(detectBlock(signals(overrides))).toMatchObject({ vendor, reason });
+  });
+
+  it.each<[string, Partial<BlockSignals>]>([
+    ['a normal product page', {}],
+    ['a reCAPTCHA on a review form', { html: '<div class="g-recaptcha"></div>' }],
+    ['a Cloudflare server header', { headers: { server: 'cloudflare' } }],
+    ['a product named after a captcha', { title: 'Captcha Solver Keyboard | Shop' }],
+    ['a security product', { title: 'Home Security Check Kit | Shop' }],
+    ['a 404 page', { status: 404, title: 'Page not found' }],
+    ['a proxy refusal', { status: 407 }],
+  ])('lets through %s', (_case, overrides) => {
+    expect(detectBlock(signals(overrides))).toBeNull();
+  });
+});
+
+describe('isBlockedStatus', () => {
+  it.each([
+    [403, true],
+    [429, true],
+    [407, false],
+    [404, false],
+    [503, false],
+  ])('%s is %s', (status, blocked) => {
+    expect(isBlockedStatus(status)).toBe(blocked);
+  });
+});
@@ -0,0 +1,64 @@
+import { checkCallbackUrl, getCallbackUrlError, isPrivateAddress } from '../callbacks';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    ['127.0.0.1', true],
+    ['10.1.2.3', true],
+    ['172.20.0.5', true],
+    ['192.168.1.1', true],
+    ['169.254.169.254', true],
+    ['100.64.0.1', true],
+    ['0.0.0.0', true],
+    ['::1', true],
+    ['::', true],
+    ['fd12:3456::1', true],
+    ['fe80::1', true],
+    ['::ffff:127.0.0.1', true],
+    ['93.184.216.34', false],
+    ['172.32.0.1', false],
+    ['2606:4700::1111', false],
+    ['not-an-ip', false],
+  ])('%s is %s', (address, isPrivate) => {
+    expect(isPrivateAddress(address)).toBe(isPrivate);
+  });
+});
+
+describe('getCallbackUrlError', () => {
+  it.each([
+    'https://hooks.example.com/job-done',
+    'http://93.184.216.34:8080/callback',
+  ])('allows %s', url => {
+    expect(getCallbackUrlError(url, [])).toBeNull();
+  });
+
+  it.each([
+    ['ftp://hooks.example.com/job-done', /http or https/],
+    ['file:///etc/passwd', /http or https/],
+    ['http://localhost:3000/health', /private address/],
+    ['http://api.localhost/', /private address/],
+    ['http://127.0.0.1:6379/', /private address/],
+    ['http://[::1]/', /private address/],
+    ['http://169.254.169.254/latest/meta-data', /private address/],
+    ['not a url', /Invalid URL/],
+  ])('refuses %s', (url, message) => {
+    expect(getCallbackUrlError(url, [])).toMatch(message);
+  });
+
+  it('allows only the listed hosts when an allowlist is set, wherever they point', () => {
+    const allowed = ['n8n', 'hooks.example.com'];
+    expect(getCallbackUrlError('http://n8n:5678/webhook/jobs', allowed)).toBeNull();
+    expect(getCallbackUrlError('https://HOOKS.example.com/x', allowed)).toBeNull();
+    expect(getCallbackUrlError('https://other.example.com/x', allowed)).toMatch(/not allowed/);
+  });
+});
+
+describe('checkCallbackUrl', () => {
+  it('rejects private addresses', async () => {
+    await expect(checkCallbackUrl('http://10.0.0.5/hook', [])).rejects.toThrow(/private address/);
+  });
+
+  it('accepts public addresses and allowed hosts', async () => {
+    await expect(checkCallbackUrl('http://93.184.216.34/hook', [])).resolves.toBeUndefined();
+    await expect(checkCallbackUrl('http://n8n:5678/hook', ['n8n'])).resolves.toBeUndefined();
+  });
+});
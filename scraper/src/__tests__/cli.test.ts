@@ -0,0 +1,63 @@
+import { EXIT_CODES, runCli } from '../cli';
+import { ScrapeError, wrapError } from '../errors';
+import { getScraper, Scraper } from '../scraper';
+
+jest.mock('../scraper', () => ({
+  getScraper: jest.fn(),
+  closeScraper: jest.fn(),
+  toScrapeResult: jest.fn(),
+  toBatchResult: jest.fn(),
+}));
+
+describe('cli detect', () => {
+  const detectSelectors = jest.fn();
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    detectSelectors.mockReset();
+    jest.mocked(getScraper).mockReset().mockResolvedValue({ detectSelectors } as unknown as Scraper);
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('exits with the usage code for a bad URL, without launching the browser', async () => {
+    expect(await runCli(['detect', 'notaurl', '--json'])).toBe(EXIT_CODES.USAGE);
+    expect(getScraper).not.toHaveBeenCalled();
+  });
+
+  it('exits with the blocked code when the page is a bot wall', async () => {
+    const block = { vendor: 'cloudflare' as const, reason: 'HTTP 403', status: 403 };
+    detectSelectors.mockRejectedValue(
+      wrapError(new ScrapeError('BLOCKED', 'Blocked by cloudflare', { block }), 'Failed to detect selectors')
+    );
+
+    expect(await runCli(['detect', 'https://shop.example/p/1', '--json'])).toBe(EXIT_CODES.BLOCKED);
+    expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({ success: false, code: 'BLOCKED', blocked: block });
+  });
+
+  it('exits with the network code when the page times out', async () => {
+    detectSelectors.mockRejectedValue(new ScrapeError('TIMEOUT', 'Timed out'));
+    expect(await runCli(['detect', 'https://shop.example/p/1'])).toBe(EXIT_CODES.NETWORK);
+  });
+
+  it('passes the flags on and exits 0 when a price selector is found', async () => {
+    detectSelectors.mockResolvedValue({
+      price: [{ selector: '.price', score: 0.9, sampleValue: '$9.99', reasons: [] }],
+      name: [],
+      image: [],
+    });
+
+    expect(await runCli(['detect', 'https://shop.example/p/1', '--limit', '3', '--wait-for', '.price'])).toBe(
+      EXIT_CODES.OK
+    );
+    expect(detectSelectors).toHaveBeenCalledWith(
+      'https://shop.example/p/1',
+      { timeout: 30000, waitForSelector: '.price' },
+      3
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { diffResults, FixtureBundle, FixtureReplayer, FixtureStore } from '../fixtures';
+import { Scraper } from '../scraper';
+import { ScrapedData } from '../types';
+
+const RECORDED: ScrapedData = {
+  price: 19.99,
+  currency: 'USD',
+  productName: 'Blue Widget',
+  imageUrl: 'https://shop.example/widget.jpg',
+  rawPrice: '$19.99',
+  priceSource: 'selector',
+  availability: 'in_stock',
+  fetchMode: 'http',
+};
+
+const PAGE = `<html><head><title>Blue Widget</title></head><body>
+  <h1 class="name">Blue Widget</h1>
+  <span class="price">$19.99</span>
+  <p class="stock">In stock</p>
+</body></html>`;
+
+function bundle(name: string, html: string): FixtureBundle {
+  return {
+    name,
+    recordedAt: '2026-10-01T00:00:00.000Z',
+    fetchMode: 'http',
+    request: {
+      url: 'https://shop.example/widget',
+      priceSelector: '.price',
+      nameSelector: '.name',
+      options: { strategies: ['selector'], availabilitySelector: '.stock' },
+    },
+    responses: [
+      {
+        url: 'https://shop.example/widget',
+        method: 'GET',
+        type: 'document',
+        status: 200,
+        headers: { 'content-type': 'text/html; charset=utf-8' },
+        body: Buffer.from(html, 'utf8').toString('base64'),
+      },
+      {
+        url: 'https://shop.example/widget.js',
+        method: 'GET',
+        type: 'fetch',
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: Buffer.from('{"price":1999}', 'utf8').toString('base64'),
+      },
+    ],
+    result: RECORDED,
+  };
+}
+
+describe('diffResults', () => {
+  it('finds nothing when the compared fields match', () => {
+    expect(diffResults(RECORDED, { ...RECORDED, fetchMode: 'browser', imageUrl: undefined })).toEqual([]);
+  });
+
+  it('reports each compared field that changed', () => {
+    const replayed: ScrapedData = { ...RECORDED, price: 17.99, availability: 'out_of_stock', productName: undefined };
+    expect(diffResults(RECORDED, replayed)).toEqual([
+      { field: 'price', recorded: 19.99, replayed: 17.99 },
+      { field: 'availability', recorded: 'in_stock', replayed: 'out_of_stock' },
+      { field: 'productName', recorded: 'Blue Widget', replayed: undefined },
+    ]);
+  });
+
+  it('reports a price source that changed, even at the same price', () => {
+    expect(diffResults(RECORDED, { ...RECORDED, priceSource: 'json-ld' })).toEqual([
+      { field: 'priceSource', recorded: 'selector', replayed: 'json-ld' },
+    ]);
+  });
+});
+
+describe('FixtureReplayer', () => {
+  const replayer = new FixtureReplayer(bundle('widget', PAGE));
+
+  it('serves the recorded page HTML', async () => {
+    const document = await replayer.fetchDocument();
+    expect(document.url).toBe('https://shop.example/widget');
+    expect(document.document.querySelector('.price')?.textContent).toBe('$19.99');
+  });
+
+  it('answers recorded JSON and null for anything not recorded', async () => {
+    expect(await replayer.fetchJson('https://shop.example/widget.js')).toEqual({ price: 1999 });
+    expect(await replayer.fetchJson('https://shop.example/other.js')).toBeNull();
+  });
+});
+
+describe('FixtureStore', () => {
+  let directory: string;
+  let store: FixtureStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'));
+    store = new FixtureStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('saves, lists and loads bundles by name', async () => {
+    await store.save(bundle('widget-b', PAGE));
+    await store.save(bundle('widget-a', PAGE));
+
+    expect(await store.names()).toEqual(['widget-a', 'widget-b']);
+    expect((await store.load('widget-a'))?.request.url).toBe('https://shop.example/widget');
+    expect(await store.list()).toEqual([
+      expect.objectContaining({ name: 'widget-a', price: 19.99, currency: 'USD', fetchMode: 'http' }),
+      expect.objectContaining({ name: 'widget-b' }),
+    ]);
+  });
+
+  it('returns null for unknown, unsafe or unreadable bundles', async () => {
+    await fs.writeFile(path.join(directory, 'broken.json'), '{not json');
+    expect(await store.load('missing')).toBeNull();
+    expect(await store.load('../etc/passwd')).toBeNull();
+    expect(await store.load('broken')).toBeNull();
+  });
+
+  it('has no names when the directory does not exist yet', async () => {
+    expect(await new FixtureStore(path.join(directory, 'none')).names()).toEqual([]);
+  });
+});
+
+describe('Scraper.replayFixtures', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('replays HTTP recordings offline and reports what changed, in request order', async () => {
+    const store = new FixtureStore(directory);
+    await store.save(bundle('unchanged', PAGE));
+    await store.save(bundle('repriced', PAGE.replace('$19.99', '$17.99')));
+
+    const scraper = new Scraper({ fixtureDir: directory, concurrency: 1 });
+    const [repriced, missing, unchanged] = await scraper.replayFixtures(['repriced', 'missing', 'unchanged']);
+
+    expect(unchanged).toMatchObject({ name: 'unchanged', passed: true, changes: [] });
+    expect(repriced).toMatchObject({
+      name: 'repriced',
+      passed: false,
+      changes: [{ field: 'price', recorded: 19.99, replayed: 17.99 }],
+    });
+    expect(missing).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { isPathAllowed, parseRobots } from '../robots';
+
+const ROBOTS = `
+User-agent: *
+Disallow: /private
+Crawl-delay: 1
+
+User-agent: CompetitorTracker/2.0
+Disallow: /cart
+Allow: /cart/public$
+Crawl-delay: 5
+
+User-agent: Tracker
+Disallow: /
+`;
+
+describe('parseRobots', () => {
+  it('applies the group naming our product token, case-insensitively', () => {
+    const rules = parseRobots(ROBOTS, 'competitortracker');
+    expect(rules.rules.map(rule => rule.pattern)).toEqual(['/cart', '/cart/public$']);
+    expect(rules.crawlDelay).toBe(5);
+  });
+
+  it('compares product tokens, ignoring versions and comments', () => {
+    const rules = parseRobots(ROBOTS, 'CompetitorTracker/1.0 (+https://tracker.example)');
+    expect(rules.crawlDelay).toBe(5);
+  });
+
+  it('does not apply a group whose name is only part of our token', () => {
+    const rules = parseRobots(ROBOTS, 'CompetitorTracker');
+    expect(isPathAllowed(rules, '/products/1')).toBe(true);
+  });
+
+  it('falls back to the * group', () => {
+    const rules = parseRobots(ROBOTS, 'OtherBot');
+    expect(rules.rules.map(rule => rule.pattern)).toEqual(['/private']);
+    expect(rules.crawlDelay).toBe(1);
+  });
+
+  it('collects sitemaps for every user-agent', () => {
+    const rules = parseRobots('Sitemap: https://shop.example/sitemap.xml\nUser-agent: *\nDisallow:');
+    expect(rules.sitemaps).toEqual(['https://shop.example/sitemap.xml']);
+    expect(rules.rules).toEqual([]);
+  });
+});
+
+describe('isPathAllowed', () => {
+  const rules = parseRobots(ROBOTS, 'CompetitorTracker');
+
+  it.each([
+    ['/products/1', true],
+    ['/cart', false],
+    ['/cart/checkout', false],
+    ['/cart/public', true],
+    ['/cart/public/more', false],
+    ['/robots.txt', true],
+  ])('%s is %s', (path, allowed) => {
+    expect(isPathAllowed(rules, path)).toBe(allowed);
+  });
+
+  it('expands * in patterns', () => {
+    const wildcard = parseRobots('User-agent: *\nDisallow: /*?sort=');
+    expect(isPathAllowed(wildcard, '/shoes?sort=price')).toBe(false);
+    expect(isPathAllowed(wildcard, '/shoes')).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+import { ScrapeError } from '../errors';
+import { Scraper } from '../scraper';
+import { fetchStaticDocument } from '../static';
+
+const CHALLENGE = '<html><head><title>Just a moment...</title></head><body>Checking your browser</body></html>';
+const PRODUCT = '<html><head><title>Blue Widget</title></head><body><span class="price">$19.99</span></body></html>';
+
+function htmlResponse(body: string, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(body, { status, headers: { 'content-type': 'text/html; charset=utf-8', ...headers } });
+}
+
+async function failure(promise: Promise<unknown>): Promise<ScrapeError> {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason
+  );
+  expect(error).toBeInstanceOf(ScrapeError);
+  return error as ScrapeError;
+}
+
+describe('fetchStaticDocument', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('parses a normal page', async () => {
+    fetchMock.mockImplementation(async () => htmlResponse(PRODUCT));
+    const page = await fetchStaticDocument('https://shop.example/widget');
+    expect(page.document.querySelector('.price')?.textContent).toBe('$19.99');
+    page.close();
+  });
+
+  it('fails with BLOCKED on a challenge page served with 200', async () => {
+    fetchMock.mockImplementation(async () => htmlResponse(CHALLENGE));
+    const error = await failure(fetchStaticDocument('https://shop.example/widget'));
+    expect(error).toMatchObject({
+      code: 'BLOCKED',
+      block: { vendor: 'cloudflare', reason: 'title "Just a moment..."' },
+    });
+  });
+
+  it('fails with BLOCKED on a 403 from a bot wall', async () => {
+    const forbidden = '<html><body>Forbidden</body></html>';
+    fetchMock.mockImplementation(async () => htmlResponse(forbidden, 403, { server: 'cloudflare' }));
+    const error = await failure(fetchStaticDocument('https://shop.example/widget'));
+    expect(error).toMatchObject({ code: 'BLOCKED', block: { vendor: 'cloudflare', reason: 'HTTP 403' } });
+  });
+
+  it('reports other error statuses by their code', async () => {
+    fetchMock.mockImplementation(async () => htmlResponse('<html><title>Not found</title></html>', 404));
+    expect(await failure(fetchStaticDocument('https://shop.example/widget'))).toMatchObject({ code: 'HTTP_4XX' });
+  });
+
+  it('reports a timeout as TIMEOUT', async () => {
+    fetchMock.mockRejectedValue(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+    expect(await failure(fetchStaticDocument('https://shop.example/widget'))).toMatchObject({ code: 'TIMEOUT' });
+  });
+});
+
+describe('Scraper in HTTP fetch mode', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fails a blocked page with BLOCKED instead of falling back, and backs off the host', async () => {
+    fetchMock.mockImplementation(async () => htmlResponse(CHALLENGE));
+    const scraper = new Scraper({ concurrency: 1 });
+    const launch = jest.spyOn(scraper, 'initialize');
+    const options = { fetchMode: 'http' as const, ignoreRobots: true };
+
+    const blocked = await failure(
+      scraper.scrape('https://blocked.example/widget', '.price', undefined, undefined, options)
+    );
+    expect(blocked).toMatchObject({ code: 'BLOCKED', block: { vendor: 'cloudflare' } });
+    expect(launch).not.toHaveBeenCalled();
+
+    // The next request to the host fails at once, without fetching
+    fetchMock.mockClear();
+    const backedOff = await failure(
+      scraper.scrape('https://blocked.example/other', '.price', undefined, undefined, options)
+    );
+    expect(backedOff.message).toMatch(/Backing off blocked.example/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reads a server-rendered price without the browser', async () => {
+    fetchMock.mockImplementation(async () => htmlResponse(PRODUCT));
+    const scraper = new Scraper({ concurrency: 1 });
+
+    const data = await scraper.scrape('https://open.example/widget', '.price', undefined, undefined, {
+      fetchMode: 'http',
+      ignoreRobots: true,
+      strategies: ['selector'],
+    });
+    expect(data).toMatchObject({ price: 19.99, currency: 'USD', fetchMode: 'http' });
+  });
+
+  it('stops starting the scrapes of a streamed batch once the signal aborts', async () => {
+    // The client goes away while the first page is being fetched
+    const disconnected = new AbortController();
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/a')) disconnected.abort();
+      return htmlResponse(PRODUCT);
+    });
+    // One page at a time against the host, so the batch is scraped in order
+    const scraper = new Scraper({ concurrency: 1, politeness: { minInterval: 10, maxPerHost: 1 } });
+    const requests = ['a', 'b', 'c', 'd'].map(id => ({
+      id,
+      url: `https://stream.example/${id}`,
+      priceSelector: '.price',
+      fetchMode: 'http' as const,
+      ignoreRobots: true,
+      strategies: ['selector' as const],
+    }));
+
+    const onResult = jest.fn();
+    await scraper.streamBatch(requests, { signal: disconnected.signal }, onResult);
+
+    // robots.txt is still read for its Crawl-delay
+    const pages = fetchMock.mock.calls.map(([url]) => String(url)).filter(url => !url.endsWith('/robots.txt'));
+    expect(pages).toEqual(['https://stream.example/a']);
+    expect(onResult).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+import { calculateDiscountPercent, parsePrice, ParsePriceOptions } from '../utils';
+
+describe('parsePrice', () => {
+  describe('parses', () => {
+    const cases: Array<[string, ParsePriceOptions, number, string]> = [
+      // Symbols and codes
+      ['$1,299.99', {}, 1299.99, 'USD'],
+      ['$19.99', {}, 19.99, 'USD'],
+      ['€19,99', {}, 19.99, 'EUR'],
+      ['£1,000', {}, 1000, 'GBP'],
+      ['CA$24.99', {}, 24.99, 'CAD'],
+      ['A$24.99', {}, 24.99, 'AUD'],
+      ['MX$1,299.00', {}, 1299, 'MXN'],
+      ['CAD $12', {}, 12, 'CAD'],
+      ['12.50 CHF', {}, 12.5, 'CHF'],
+      ['1 299,00 zł', {}, 1299, 'PLN'],
+      ['199 kr', {}, 199, 'SEK'],
+      ['¥1,280', {}, 1280, 'JPY'],
+      ['Rs. 1,299', {}, 1299, 'INR'],
+      ['Rs.1,299', {}, 1299, 'INR'],
+      ['Rs 850', { locale: 'en-PK' }, 850, 'PKR'],
+      // Words that happen to be ISO codes are not the currency
+      ['ALL SIZES $9.99', {}, 9.99, 'USD'],
+      ['TOP DEAL $5', {}, 5, 'USD'],
+      ['9.99 EUR', {}, 9.99, 'EUR'],
+      // Separators
+      ['1.299,00 €', {}, 1299, 'EUR'],
+      ['1,299.00 €', {}, 1299, 'EUR'],
+      ['1.234.567 €', {}, 1234567, 'EUR'],
+      ['₹1,23,456', {}, 123456, 'INR'],
+      ["CHF 1'299.50", {}, 1299.5, 'CHF'],
+      ['0,299 €', {}, 0.299, 'EUR'],
+      ['$1,299', {}, 1299, 'USD'],
+      ['1.299 €', {}, 1299, 'EUR'],
+      ['19', {}, 19, 'USD'],
+      // Bare fractions
+      ['$.99', {}, 0.99, 'USD'],
+      ['.99', {}, 0.99, 'USD'],
+      // Signs
+      ['-$5.00', {}, -5, 'USD'],
+      ['-9,99 €', {}, -9.99, 'EUR'],
+      ['−9.99 €', {}, -9.99, 'EUR'],
+      ['Sale - $9.99', {}, 9.99, 'USD'],
+      ['Now - 9.99 €', {}, 9.99, 'EUR'],
+      ['SKU-12 $9.99', {}, 9.99, 'USD'],
+      // Surrounding text
+      ['Save 20% 9.99', {}, 9.99, 'USD'],
+      ['Save 20 % now: $9.99', {}, 9.99, 'USD'],
+      ['In stock 3 left, $9.99', {}, 9.99, 'USD'],
+      ['Only 2 left at 14,95 €', {}, 14.95, 'EUR'],
+      // Hints
+      ['1.299', { locale: 'de-DE' }, 1299, 'EUR'],
+      ['1,299', { locale: 'en-US' }, 1299, 'USD'],
+      ['1,299', { locale: 'de-DE' }, 1.299, 'EUR'],
+      ['19,99', { locale: 'de-DE' }, 19.99, 'EUR'],
+      ['1 299,00', { locale: 'pl-PL' }, 1299, 'PLN'],
+      ['19.99', { locale: 'en' }, 19.99, 'USD'],
+      ['1.299', { currency: 'EUR' }, 1299, 'EUR'],
+      ['$19.99', { locale: 'es-MX' }, 19.99, 'MXN'],
+      ['$19.99', { currency: 'CAD' }, 19.99, 'CAD'],
+      ['1.299,50', { locale: 'de-DE', currency: 'eur' }, 1299.5, 'EUR'],
+    ];
+
+    it.each(cases)('%s with %j', (text, options, price, currency) => {
+      expect(parsePrice(text, options)).toEqual({ price, currency });
+    });
+  });
+
+  describe('rejects', () => {
+    const cases: Array<[string, ParsePriceOptions, RegExp]> = [
+      ['', {}, /empty/],
+      ['   ', {}, /empty/],
+      ['Out of stock', {}, /Could not parse/],
+      ['50%', {}, /Could not parse/],
+      // A bare three-digit group could be grouping or decimals
+      ['1,299', {}, /Ambiguous/],
+      ['1.299', {}, /Ambiguous/],
+      // Three-decimal currencies are ambiguous even with the currency
+      ['KWD 1,299', {}, /Ambiguous/],
+      ['1.299,00', { locale: 'en-US' }, /does not match the en-US number format|more than one decimal/],
+      ['1,2345,678', {}, /inconsistent digit grouping/],
+      ['1,299', { locale: 'xx-invalid-@@' }, /Unknown locale/],
+    ];
+
+    it.each(cases)('%j with %j', (text, options, message) => {
+      expect(() => parsePrice(text, options)).toThrow(message);
+    });
+  });
+});
+
+describe('calculateDiscountPercent', () => {
+  it.each([
+    [75, 100, 25],
+    [19.99, 29.99, 33.34],
+    [100, 100, undefined],
+    [120, 100, undefined],
+    [50, undefined, undefined],
+  ])('%s off %s is %s', (price, originalPrice, percent) => {
+    expect(calculateDiscountPercent(price, originalPrice)).toBe(percent);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Declarative page actions run after navigation and before extraction:
+ * dismissing cookie banners, picking a region or variant, revealing a price
+ *
+ * Selectors are Playwright selectors, so besides CSS they accept `text=Accept`
+ * and `xpath=//button`. Each step has its own timeout; optional steps (a banner
+ * that only shows up sometimes) are skipped instead of failing the scrape.
+ */
+
+import { Page } from 'playwright';
+import { ScrapeError } from './errors';
+import { ActionOutcome, PageAction } from './types';
+import { sleep } from './utils';
+
+export const DEFAULT_ACTION_TIMEOUT = 5000;
+
+/**
+ * Longest fixed pause a `wait` step may ask for
+ */
+export const MAX_ACTION_WAIT = 30000;
+
+/**
+ * Short human-readable form of a step for logs and errors
+ */
+export function describeAction(action: PageAction): string {
+  switch (action.type) {
+    case 'click':
+      return `click ${action.selector}`;
+    case 'fill':
+      return `fill ${action.selector}`;
+    case 'select':
+      return `select "${action.value}" in ${action.selector}`;
+    case 'press':
+      return action.selector ? `press ${action.key} in ${action.selector}` : `press ${action.key}`;
+    case 'waitForSelector':
+      return `wait for ${action.selector}${action.state ? ` (${action.state})` : ''}`;
+    case 'wait':
+      return `wait ${action.ms}ms`;
+    case 'scroll':
+      return action.selector ? `scroll to ${action.selector}` : 'scroll to bottom';
+  }
+}
+
+/**
+ * Run steps in order. Throws on the first required step that fails, naming it.
+ */
+export async function runPageActions(page: Page, actions: PageAction[]): Promise<ActionOutcome[]> {
+  const outcomes: ActionOutcome[] = [];
+
+  for (const [index, action] of actions.entries()) {
+    const startedAt = Date.now();
+    const description = describeAction(action);
+
+    try {
+      await runPageAction(page, action);
+      outcomes.push({ step: index + 1, action: description, status: 'ok', duration: Date.now() - startedAt });
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      if (!action.optional) {
+        throw new ScrapeError('ACTION_FAILED', `Page action ${index + 1} (${description}) failed: ${message}`);
+      }
+      outcomes.push({
+        step: index + 1,
+        action: description,
+        status: 'skipped',
+        duration: Date.now() - startedAt,
+        error: message,
+      });
+    }
+  }
+
+  return outcomes;
+}
+
+async function runPageAction(page: Page, action: PageAction): Promise<void> {
+  const timeout = action.timeout || DEFAULT_ACTION_TIMEOUT;
+
+  switch (action.type) {
+    case 'click':
+      await page.locator(action.selector).first().click({ timeout });
+      return;
+    case 'fill':
+      await page.locator(action.selector).first().fill(action.value, { timeout });
+      return;
+    case 'select':
+      // Matches the option's value or its label
+      await page.locator(action.selector).first().selectOption(action.value, { timeout });
+      return;
+    case 'press':
+      if (action.selector) {
+        await page.locator(action.selector).first().press(action.key, { timeout });
+      } else {
+        await page.keyboard.press(action.key);
+      }
+      return;
+    case 'waitForSelector':
+      await page.waitForSelector(action.selector, { state: action.state || 'visible', timeout });
+      return;
+    case 'wait':
+      await sleep(Math.min(action.ms, MAX_ACTION_WAIT));
+      return;
+    case 'scroll':
+      if (action.selector) {
+        await page.locator(action.selector).first().scrollIntoViewIfNeeded({ timeout });
+      } else {
+        // Lazy-loaded prices often appear once the page is scrolled
+        await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      }
+      return;
+  }
+}
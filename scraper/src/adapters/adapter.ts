@@ -0,0 +1,88 @@
+/**
+ * Contract between the scraper and a site adapter, plus helpers adapters share
+ */
+
+import { Availability, ProductVariant } from '../types';
+import { ParsePriceOptions } from '../utils';
+import { StructuredPrice } from '../structured';
+
+/**
+ * A loaded product page as adapters see it, whether a browser or a plain
+ * HTTP fetch loaded it
+ */
+export interface AdapterPage {
+  // Final URL after redirects
+  url: string;
+  html: string;
+  // Parsed without running scripts
+  document: Document;
+  // GET a JSON document from the site with the scrape's headers, cookies and proxy; null on failure
+  fetchJson: (url: string) => Promise<unknown>;
+}
+
+/**
+ * What an adapter read from a product page
+ */
+export interface AdapterData extends StructuredPrice {
+  availability?: Availability;
+  rawAvailability?: string;
+  variants?: ProductVariant[];
+  images?: string[];
+}
+
+export interface SiteAdapter {
+  // Reported as the result's `adapter`
+  name: string;
+  // Whether a page belongs to the platform, from its URL or its raw HTML
+  detect: (url: URL, html: string) => boolean;
+  // Read the page; null when the price is not where the platform puts it
+  extract: (page: AdapterPage, hints: ParsePriceOptions) => Promise<AdapterData | null>;
+}
+
+/**
+ * Trimmed text of the first element matching a CSS selector
+ */
+export function textOf(root: ParentNode, selector: string): string | undefined {
+  const text = root.querySelector(selector)?.textContent?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * Trimmed attribute of the first element matching a CSS selector
+ */
+export function attributeOf(root: ParentNode, selector: string, attribute: string): string | undefined {
+  const value = root.querySelector(selector)?.getAttribute(attribute)?.trim();
+  return value || undefined;
+}
+
+/**
+ * Absolute form of a URL found on a page, including protocol-relative CDN links
+ */
+export function absoluteUrl(value: string | null | undefined, base: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a JSON attribute or script body, or undefined when it is not JSON
+ */
+export function parseJson(value: string | null | undefined): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Image URLs without duplicates or empty entries
+ */
+export function uniqueUrls(urls: Array<string | undefined>): string[] | undefined {
+  const unique = Array.from(new Set(urls.filter((url): url is string => Boolean(url))));
+  return unique.length > 0 ? unique : undefined;
+}
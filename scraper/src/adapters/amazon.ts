@@ -0,0 +1,112 @@
+/**
+ * Amazon and the marketplaces built on its page layout: the buy box price,
+ * struck-through list price, availability note, image gallery and variation
+ * swatches have stable ids
+ */
+
+import { ProductVariant } from '../types';
+import { classifyAvailabilityText } from '../availability';
+import { parsePrice } from '../utils';
+import { absoluteUrl, attributeOf, parseJson, SiteAdapter, textOf, uniqueUrls } from './adapter';
+
+// Current price, most specific first; .a-offscreen holds the whole price as one string
+const PRICE_SELECTORS = [
+  '#corePrice_feature_div .a-price:not([data-a-strike]) .a-offscreen',
+  '#corePriceDisplay_desktop_feature_div .a-price:not([data-a-strike]) .a-offscreen',
+  '#priceblock_dealprice',
+  '#priceblock_ourprice',
+  '#price_inside_buybox',
+  '#apex_desktop .a-price:not([data-a-strike]) .a-offscreen',
+];
+
+const ORIGINAL_PRICE_SELECTORS = [
+  '#corePriceDisplay_desktop_feature_div .a-price[data-a-strike] .a-offscreen',
+  '#corePrice_feature_div .a-price[data-a-strike] .a-offscreen',
+  '.basisPrice .a-offscreen',
+  '#listPrice',
+];
+
+export const amazonAdapter: SiteAdapter = {
+  name: 'amazon',
+
+  detect: (url, html) =>
+    /(^|\.)amazon\.[a-z.]+$/i.test(url.hostname) ||
+    (html.includes('id="productTitle"') && html.includes('a-offscreen')),
+
+  extract: async (page, hints) => {
+    const { document } = page;
+
+    const rawPrice = PRICE_SELECTORS.map(selector => textOf(document, selector)).find(Boolean);
+    if (!rawPrice) return null;
+
+    let parsed: { price: number; currency: string };
+    try {
+      parsed = parsePrice(rawPrice, hints);
+    } catch {
+      return null;
+    }
+
+    const rawOriginalPrice = ORIGINAL_PRICE_SELECTORS.map(selector => textOf(document, selector)).find(Boolean);
+    let originalPrice: number | undefined;
+    if (rawOriginalPrice) {
+      try {
+        originalPrice = parsePrice(rawOriginalPrice, { ...hints, currency: parsed.currency }).price;
+      } catch {
+        // Keep the price without a list price
+      }
+    }
+
+    const rawAvailability = textOf(document, '#availability');
+    const availability = rawAvailability ? classifyAvailabilityText(rawAvailability) : undefined;
+
+    // The main image lists its sizes as {"url": [width, height]}
+    const landing = document.querySelector('#landingImage, #imgBlkFront');
+    const sizes = parseJson(landing?.getAttribute('data-a-dynamic-image')) as Record<string, unknown> | undefined;
+    const imageUrl = absoluteUrl(
+      landing?.getAttribute('data-old-hires') || landing?.getAttribute('src') || undefined,
+      page.url
+    );
+    const images = uniqueUrls([imageUrl, ...Object.keys(sizes || {}).map(url => absoluteUrl(url, page.url))]);
+
+    return {
+      price: parsed.price,
+      currency: parsed.currency,
+      rawPrice,
+      originalPrice,
+      rawOriginalPrice: originalPrice !== undefined ? rawOriginalPrice : undefined,
+      productName: textOf(document, '#productTitle'),
+      imageUrl: imageUrl || attributeOf(document, 'meta[property="og:image"]', 'content'),
+      availability: availability !== 'unknown' ? availability : undefined,
+      rawAvailability,
+      variants: readSwatches(document),
+      images,
+    };
+  },
+};
+
+/**
+ * Variation swatches ("twister"): one entry per option with its ASIN. Their
+ * prices load on selection, so only the selected one is priced (by the page).
+ */
+function readSwatches(document: Document): ProductVariant[] | undefined {
+  const swatches = Array.from(document.querySelectorAll('#twister li[data-defaultasin], #twister li[data-asin]'));
+  const variants = swatches
+    .map(swatch => {
+      const id = swatch.getAttribute('data-defaultasin') || swatch.getAttribute('data-asin');
+      if (!id) return null;
+
+      const title =
+        swatch.getAttribute('title')?.replace(/^Click to select\s*/i, '').trim() ||
+        swatch.querySelector('img')?.getAttribute('alt')?.trim() ||
+        swatch.textContent?.replace(/\s+/g, ' ').trim();
+      const variant: ProductVariant = {
+        id,
+        title: title || undefined,
+        availability: swatch.classList.contains('swatchUnavailable') ? 'out_of_stock' : 'unknown',
+        selected: swatch.classList.contains('swatchSelect') || undefined,
+      };
+      return variant;
+    })
+    .filter((variant): variant is ProductVariant => variant !== null);
+  return variants.length > 0 ? variants : undefined;
+}
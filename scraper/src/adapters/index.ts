@@ -0,0 +1,64 @@
+/**
+ * Site adapters: readers for shop platforms whose product pages share a layout
+ *
+ * Adding a platform means writing one adapter file and listing it below.
+ * The first adapter that detects a page reads it.
+ */
+
+import { JSDOM } from 'jsdom';
+import { ParsePriceOptions } from '../utils';
+import { AdapterData, AdapterPage, SiteAdapter } from './adapter';
+import { amazonAdapter } from './amazon';
+import { magentoAdapter } from './magento';
+import { shopifyAdapter } from './shopify';
+import { wooCommerceAdapter } from './woocommerce';
+
+export type { AdapterData, AdapterPage, SiteAdapter } from './adapter';
+
+export const SITE_ADAPTERS: SiteAdapter[] = [shopifyAdapter, wooCommerceAdapter, magentoAdapter, amazonAdapter];
+
+/**
+ * Which adapter read a page and what it found; `data` is null when it found no price
+ */
+export interface AdapterRead {
+  adapter: string;
+  data: AdapterData | null;
+  error?: string;
+}
+
+/**
+ * The adapter for a page's platform, if any
+ */
+export function findAdapter(url: string, html: string): SiteAdapter | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  return SITE_ADAPTERS.find(adapter => adapter.detect(parsed, html)) || null;
+}
+
+/**
+ * Read a page with its platform's adapter; null when no adapter knows the
+ * platform. Pages without a parsed document (from the browser) are parsed only
+ * once an adapter wants them.
+ */
+export async function readWithAdapter(
+  page: Omit<AdapterPage, 'document'> & { document?: Document },
+  hints: ParsePriceOptions
+): Promise<AdapterRead | null> {
+  const adapter = findAdapter(page.url, page.html);
+  if (!adapter) return null;
+
+  const dom = page.document ? null : new JSDOM(page.html, { url: page.url });
+  try {
+    const document = page.document || dom!.window.document;
+    return { adapter: adapter.name, data: await adapter.extract({ ...page, document }, hints) };
+  } catch (error) {
+    // A layout the adapter did not expect; the generic strategies still get their turn
+    return { adapter: adapter.name, data: null, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    dom?.window.close();
+  }
+}
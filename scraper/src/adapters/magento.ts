@@ -0,0 +1,117 @@
+/**
+ * Magento 2: prices carry their exact amount in data-price-amount, and the
+ * gallery and configurable options are declared in x-magento-init scripts
+ */
+
+import { Availability, ProductVariant } from '../types';
+import { parsePrice } from '../utils';
+import { absoluteUrl, attributeOf, parseJson, SiteAdapter, textOf, uniqueUrls } from './adapter';
+
+interface MagentoConfig {
+  attributes?: Record<string, { label?: string; options?: Array<{ label?: string; products?: string[] }> }>;
+  optionPrices?: Record<string, { finalPrice?: { amount?: number }; oldPrice?: { amount?: number } }>;
+}
+
+const MARKUP_PATTERN = /text\/x-magento-init|data-mage-init|Magento_[A-Z]/;
+
+export const magentoAdapter: SiteAdapter = {
+  name: 'magento',
+
+  detect: (_url, html) => MARKUP_PATTERN.test(html),
+
+  extract: async (page, hints) => {
+    const { document } = page;
+    const main = document.querySelector('.product-info-main') || document;
+
+    const finalPrice = main.querySelector('[data-price-type="finalPrice"][data-price-amount]');
+    const amount = parseFloat(finalPrice?.getAttribute('data-price-amount') || '');
+    if (!finalPrice || !Number.isFinite(amount)) return null;
+
+    // The amount is exact; the displayed text says which currency it is in
+    const rawPrice = finalPrice.textContent?.replace(/\s+/g, ' ').trim() || String(amount);
+    let currency = hints.currency?.toUpperCase();
+    try {
+      currency = parsePrice(rawPrice, hints).currency;
+    } catch {
+      // Keep the hinted currency
+    }
+
+    const oldPrice = main.querySelector('[data-price-type="oldPrice"][data-price-amount]');
+    const oldAmount = parseFloat(oldPrice?.getAttribute('data-price-amount') || '');
+    const originalPrice = Number.isFinite(oldAmount) && oldAmount > amount ? oldAmount : undefined;
+    const rawOriginalPrice = oldPrice?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+
+    const stock = main.querySelector('.stock');
+    const availability: Availability | undefined = stock?.classList.contains('unavailable')
+      ? 'out_of_stock'
+      : stock?.classList.contains('available')
+        ? 'in_stock'
+        : undefined;
+
+    const scripts = Array.from(document.querySelectorAll('script[type="text/x-magento-init"]')).map(script =>
+      parseJson(script.textContent)
+    );
+    const gallery = findKey(scripts, 'mage/gallery/gallery') as
+      | { data?: Array<{ full?: string; img?: string }> }
+      | undefined;
+    const images = uniqueUrls((gallery?.data || []).map(image => absoluteUrl(image.full || image.img, page.url)));
+
+    return {
+      price: amount,
+      currency,
+      rawPrice,
+      originalPrice,
+      rawOriginalPrice: originalPrice !== undefined ? rawOriginalPrice : undefined,
+      productName: textOf(document, '.page-title .base') || textOf(document, '[itemprop="name"]'),
+      imageUrl: images?.[0] || attributeOf(document, 'meta[property="og:image"]', 'content'),
+      availability,
+      rawAvailability: stock?.textContent?.replace(/\s+/g, ' ').trim() || undefined,
+      variants: toVariants(findKey(scripts, 'spConfig') as MagentoConfig | undefined),
+      images,
+    };
+  },
+};
+
+/**
+ * Child products of a configurable product, titled by their option labels.
+ * Magento leaves out children that cannot be bought, so stock is not known.
+ */
+function toVariants(config: MagentoConfig | undefined): ProductVariant[] | undefined {
+  if (!config?.optionPrices) return undefined;
+
+  const titles = new Map<string, string[]>();
+  for (const attribute of Object.values(config.attributes || {})) {
+    for (const option of attribute.options || []) {
+      for (const product of option.products || []) {
+        titles.set(product, [...(titles.get(product) || []), option.label || '']);
+      }
+    }
+  }
+
+  const variants = Object.entries(config.optionPrices).map(([id, prices]) => {
+    const price = prices.finalPrice?.amount;
+    const oldPrice = prices.oldPrice?.amount;
+    return {
+      id,
+      title: titles.get(id)?.filter(Boolean).join(' / ') || undefined,
+      price,
+      originalPrice: oldPrice !== undefined && price !== undefined && oldPrice > price ? oldPrice : undefined,
+      availability: 'unknown' as const,
+    };
+  });
+  return variants.length > 0 ? variants : undefined;
+}
+
+/**
+ * First value stored under a key anywhere in parsed JSON
+ */
+function findKey(value: unknown, key: string): unknown {
+  if (!value || typeof value !== 'object') return undefined;
+  if (!Array.isArray(value) && key in value) return (value as Record<string, unknown>)[key];
+
+  for (const child of Object.values(value)) {
+    const found = findKey(child, key);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
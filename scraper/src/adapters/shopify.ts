@@ -0,0 +1,81 @@
+/**
+ * Shopify: every product page has a public JSON twin at /products/<handle>.js
+ *
+ * The .js form is used rather than .json because it says whether each variant
+ * can be bought. Prices in it are in cents of the store's active currency.
+ */
+
+import { ProductVariant } from '../types';
+import { absoluteUrl, attributeOf, SiteAdapter, uniqueUrls } from './adapter';
+
+interface ShopifyVariant {
+  id: number;
+  title?: string;
+  sku?: string | null;
+  price: number;
+  compare_at_price?: number | null;
+  available?: boolean;
+  featured_image?: { src?: string } | null;
+}
+
+interface ShopifyProduct {
+  title?: string;
+  featured_image?: string;
+  images?: string[];
+  variants?: ShopifyVariant[];
+}
+
+const MARKUP_PATTERN = /cdn\.shopify\.com|window\.Shopify\b|Shopify\.theme\b/;
+
+export const shopifyAdapter: SiteAdapter = {
+  name: 'shopify',
+
+  detect: (url, html) => /\/products\/[^/]+/.test(url.pathname) && MARKUP_PATTERN.test(html),
+
+  extract: async (page, hints) => {
+    const url = new URL(page.url);
+    const handle = url.pathname.match(/\/products\/([^/?#]+)/)?.[1];
+    if (!handle) return null;
+
+    const product = (await page.fetchJson(`${url.origin}/products/${handle}.js`)) as ShopifyProduct | null;
+    if (!product?.variants?.length) return null;
+
+    // ?variant= picks the variant on the page; otherwise the store shows the first one in stock
+    const variantId = url.searchParams.get('variant');
+    const selected =
+      product.variants.find(variant => String(variant.id) === variantId) ||
+      product.variants.find(variant => variant.available) ||
+      product.variants[0];
+
+    const currency =
+      page.html.match(/Shopify\.currency\s*=\s*\{\s*"active"\s*:\s*"([A-Z]{3})"/)?.[1] ||
+      attributeOf(page.document, 'meta[property="og:price:currency"]', 'content') ||
+      hints.currency?.toUpperCase();
+
+    const variants: ProductVariant[] = product.variants.map(variant => ({
+      id: String(variant.id),
+      title: variant.title,
+      sku: variant.sku || undefined,
+      price: variant.price / 100,
+      originalPrice: variant.compare_at_price ? variant.compare_at_price / 100 : undefined,
+      availability: variant.available === false ? 'out_of_stock' : variant.available ? 'in_stock' : 'unknown',
+      imageUrl: absoluteUrl(variant.featured_image?.src, page.url),
+      selected: variant === selected,
+    }));
+    const chosen = variants[product.variants.indexOf(selected)];
+
+    return {
+      price: chosen.price!,
+      currency,
+      rawPrice: String(selected.price),
+      originalPrice: chosen.originalPrice,
+      rawOriginalPrice: selected.compare_at_price ? String(selected.compare_at_price) : undefined,
+      productName: product.title,
+      imageUrl: chosen.imageUrl || absoluteUrl(product.featured_image, page.url),
+      availability: chosen.availability,
+      rawAvailability: selected.available === undefined ? undefined : `available: ${selected.available}`,
+      variants,
+      images: uniqueUrls((product.images || []).map(image => absoluteUrl(image, page.url))),
+    };
+  },
+};
@@ -0,0 +1,151 @@
+/**
+ * WooCommerce: the price block, stock note and gallery use fixed class names,
+ * and variable products embed every variation as JSON in their add-to-cart form
+ */
+
+import { Availability, ProductVariant } from '../types';
+import { parsePrice } from '../utils';
+import { absoluteUrl, attributeOf, parseJson, SiteAdapter, textOf, uniqueUrls } from './adapter';
+
+interface WooVariation {
+  variation_id: number;
+  attributes?: Record<string, string>;
+  sku?: string;
+  display_price?: number;
+  display_regular_price?: number;
+  is_in_stock?: boolean;
+  backorders_allowed?: boolean;
+  image?: { full_src?: string; src?: string };
+}
+
+const MARKUP_PATTERN = /wp-content\/plugins\/woocommerce|class="[^"]*\bwoocommerce\b/;
+
+export const wooCommerceAdapter: SiteAdapter = {
+  name: 'woocommerce',
+
+  detect: (_url, html) => MARKUP_PATTERN.test(html),
+
+  extract: async (page, hints) => {
+    const { document } = page;
+    const summary = document.querySelector('.product .summary, .product .entry-summary') || document;
+
+    // On sale: current price in <ins>, regular price in <del>
+    const rawPrice =
+      textOf(summary, '.price ins .woocommerce-Price-amount') || textOf(summary, '.price .woocommerce-Price-amount');
+    if (!rawPrice) return null;
+
+    let parsed: { price: number; currency: string };
+    try {
+      parsed = parsePrice(rawPrice, hints);
+    } catch {
+      return null;
+    }
+
+    const rawOriginalPrice = textOf(summary, '.price del .woocommerce-Price-amount');
+    let originalPrice: number | undefined;
+    if (rawOriginalPrice) {
+      try {
+        originalPrice = parsePrice(rawOriginalPrice, { ...hints, currency: parsed.currency }).price;
+      } catch {
+        // Keep the sale price without a regular one
+      }
+    }
+
+    const stock = summary.querySelector('.stock');
+    const rawAvailability = stock?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+    const availability: Availability | undefined = stock?.classList.contains('out-of-stock')
+      ? 'out_of_stock'
+      : stock?.classList.contains('available-on-backorder')
+        ? 'backorder'
+        : stock?.classList.contains('in-stock')
+          ? 'in_stock'
+          : undefined;
+
+    const images = uniqueUrls(
+      Array.from(document.querySelectorAll('.woocommerce-product-gallery__image')).map(image =>
+        absoluteUrl(
+          image.querySelector('img')?.getAttribute('data-large_image') ||
+            image.querySelector('a')?.getAttribute('href'),
+          page.url
+        )
+      )
+    );
+
+    const result = {
+      price: parsed.price,
+      currency: parsed.currency,
+      rawPrice,
+      originalPrice,
+      rawOriginalPrice: originalPrice !== undefined ? rawOriginalPrice : undefined,
+      productName: textOf(document, '.product_title'),
+      imageUrl: images?.[0] || attributeOf(document, 'meta[property="og:image"]', 'content'),
+      availability,
+      rawAvailability,
+      images,
+    };
+
+    // A variable product's price block shows a range; report the variation the URL picks instead
+    const variations = parseJson(
+      attributeOf(document, 'form.variations_form', 'data-product_variations')
+    ) as WooVariation[] | undefined;
+    if (!Array.isArray(variations) || variations.length === 0) {
+      return result;
+    }
+
+    const selected = selectVariation(variations, new URL(page.url).searchParams);
+    const variants: ProductVariant[] = variations.map(variation => ({
+      id: String(variation.variation_id),
+      title: Object.values(variation.attributes || {}).filter(Boolean).join(' / ') || undefined,
+      sku: variation.sku || undefined,
+      price: variation.display_price,
+      originalPrice:
+        variation.display_regular_price !== undefined && variation.display_regular_price !== variation.display_price
+          ? variation.display_regular_price
+          : undefined,
+      availability: variation.is_in_stock ? 'in_stock' : variation.backorders_allowed ? 'backorder' : 'out_of_stock',
+      imageUrl: absoluteUrl(variation.image?.full_src || variation.image?.src, page.url),
+      selected: variation === selected,
+    }));
+    const chosen = variants[variations.indexOf(selected)];
+    if (chosen.price === undefined) {
+      return { ...result, variants };
+    }
+
+    return {
+      ...result,
+      price: chosen.price,
+      rawPrice: String(chosen.price),
+      originalPrice: chosen.originalPrice,
+      rawOriginalPrice: chosen.originalPrice !== undefined ? String(chosen.originalPrice) : undefined,
+      imageUrl: chosen.imageUrl || result.imageUrl,
+      availability: chosen.availability,
+      rawAvailability: undefined,
+      variants,
+    };
+  },
+};
+
+/**
+ * The variation whose attributes the URL sets (?attribute_pa_size=large),
+ * else the cheapest one in stock, which is where the shown range starts
+ */
+function selectVariation(variations: WooVariation[], params: URLSearchParams): WooVariation {
+  const requested = Array.from(params.entries()).filter(([name]) => name.startsWith('attribute_'));
+  if (requested.length > 0) {
+    const match = variations.find(variation =>
+      requested.every(([name, value]) => {
+        const attribute = variation.attributes?.[name];
+        // An empty attribute means "any value"
+        return attribute === '' || attribute?.toLowerCase() === value.toLowerCase();
+      })
+    );
+    if (match) return match;
+  }
+
+  const priced = variations.filter(variation => variation.display_price !== undefined);
+  const candidates = priced.filter(variation => variation.is_in_stock);
+  const pool = candidates.length > 0 ? candidates : priced.length > 0 ? priced : variations;
+  return pool.reduce((cheapest, variation) =>
+    (variation.display_price ?? Infinity) < (cheapest.display_price ?? Infinity) ? variation : cheapest
+  );
+}
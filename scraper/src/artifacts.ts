@@ -0,0 +1,69 @@
+/**
+ * Content-addressed artifact store for scrape evidence (screenshots, HTML)
+ *
+ * Files are named after the SHA-256 of their content, so capturing the same
+ * page twice stores it once and an artifact id can never point at other data.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ArtifactRef } from './types';
+
+export const DEFAULT_ARTIFACT_DIR = './artifacts';
+
+type ArtifactExtension = 'png' | 'jpg' | 'html';
+
+const CONTENT_TYPES: Record<ArtifactExtension, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  html: 'text/html; charset=utf-8',
+};
+
+// <sha256>.<extension>, nothing that could escape the store directory
+const ARTIFACT_ID_PATTERN = /^([a-f0-9]{64})\.(png|jpg|html)$/;
+
+export class ArtifactStore {
+  constructor(private readonly directory: string = DEFAULT_ARTIFACT_DIR) {}
+
+  /**
+   * Store content under its hash, skipping the write when it is already there
+   */
+  async put(content: Buffer | string, extension: ArtifactExtension): Promise<ArtifactRef> {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const hash = createHash('sha256').update(data).digest('hex');
+    const id = `${hash}.${extension}`;
+    const file = this.pathFor(id);
+
+    try {
+      await fs.access(file);
+    } catch {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename so a concurrent reader never sees a partial file
+      const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temp, data);
+      await fs.rename(temp, file);
+    }
+
+    return { id, contentType: CONTENT_TYPES[extension], size: data.length };
+  }
+
+  /**
+   * Read an artifact by id; null for unknown or malformed ids
+   */
+  async get(id: string): Promise<{ data: Buffer; contentType: string } | null> {
+    const match = ARTIFACT_ID_PATTERN.exec(id);
+    if (!match) return null;
+
+    try {
+      return { data: await fs.readFile(this.pathFor(id)), contentType: CONTENT_TYPES[match[2] as ArtifactExtension] };
+    } catch {
+      return null;
+    }
+  }
+
+  // Two-level fan-out keeps directories small
+  private pathFor(id: string): string {
+    return path.join(this.directory, id.slice(0, 2), id);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Stock availability classification
+ */
+
+import { Availability, AvailabilityKeywords } from './types';
+
+/**
+ * Phrases that reveal stock status, checked in the order listed in
+ * AVAILABILITY_PRECEDENCE so "not available" never matches "available" first.
+ * They match whole words only, so "indisponible" is not "disponible".
+ */
+export const DEFAULT_AVAILABILITY_KEYWORDS: Required<AvailabilityKeywords> = {
+  outOfStock: [
+    'out of stock',
+    'sold out',
+    'currently unavailable',
+    'not available',
+    'unavailable',
+    'no longer available',
+    'discontinued',
+    'ausverkauft',
+    'nicht verfügbar',
+    'agotado',
+    'épuisé',
+    'rupture de stock',
+    'esaurito',
+    'uitverkocht',
+    'indisponible',
+    'sin stock',
+  ],
+  preorder: ['pre-order', 'preorder', 'coming soon', 'vorbestellen', 'précommande'],
+  backorder: ['backorder', 'back-order', 'ships in', 'available to order'],
+  inStock: [
+    'in stock',
+    'available',
+    'add to cart',
+    'add to basket',
+    'add to bag',
+    'buy now',
+    'only a few left',
+    'auf lager',
+    'lieferbar',
+    'en stock',
+    'disponible',
+    'disponibile',
+    'op voorraad',
+  ],
+};
+
+// Words that turn an in-stock phrase around, one word apart at most:
+// "not in stock", "no disponible", "non disponibile", "nicht mehr lieferbar"
+const NEGATIONS = ['not', 'no', 'non', 'nicht', 'kein', 'keine', 'pas', 'niet', 'nie'];
+const NEGATED_ENDING = new RegExp(`(?<![\\p{L}])(?:${NEGATIONS.join('|')}) (?:\\p{L}+ )?$`, 'u');
+
+const AVAILABILITY_PRECEDENCE: Array<[keyof AvailabilityKeywords, Availability]> = [
+  ['outOfStock', 'out_of_stock'],
+  ['preorder', 'preorder'],
+  ['backorder', 'backorder'],
+  ['inStock', 'in_stock'],
+];
+
+/**
+ * Classify free text (e.g. a stock badge or buy button) using keyword rules.
+ * Custom keywords are checked before the defaults for the same status, and a
+ * negated in-stock phrase means out of stock.
+ */
+export function classifyAvailabilityText(
+  text: string,
+  keywords: AvailabilityKeywords = {}
+): Availability {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!normalized) return 'unknown';
+
+  for (const [key, availability] of AVAILABILITY_PRECEDENCE) {
+    const phrases = [...(keywords[key] || []), ...DEFAULT_AVAILABILITY_KEYWORDS[key]];
+    for (const phrase of phrases) {
+      const index = findPhrase(normalized, phrase.toLowerCase());
+      if (index === -1) continue;
+
+      const negated = key === 'inStock' && NEGATED_ENDING.test(normalized.slice(0, index));
+      return negated ? 'out_of_stock' : availability;
+    }
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Position of a phrase standing as whole words in the text, -1 when absent
+ */
+function findPhrase(text: string, phrase: string): number {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.search(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'u'));
+}
+
+/**
+ * Map a schema.org ItemAvailability value ("https://schema.org/InStock",
+ * "OutOfStock", "instock", "oos"...) to an availability status
+ */
+export function normalizeSchemaAvailability(value: string): Availability {
+  const name = value.trim().replace(/^https?:\/\/schema\.org\//i, '').toLowerCase().replace(/[\s_-]/g, '');
+
+  switch (name) {
+    case 'instock':
+    case 'limitedavailability':
+    case 'onlineonly':
+    case 'instoreonly':
+      return 'in_stock';
+    case 'outofstock':
+    case 'oos':
+    case 'soldout':
+    case 'discontinued':
+      return 'out_of_stock';
+    case 'preorder':
+    case 'presale':
+      return 'preorder';
+    case 'backorder':
+      return 'backorder';
+    default:
+      return 'unknown';
+  }
+}
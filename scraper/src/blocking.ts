@@ -0,0 +1,133 @@
+/**
+ * Recognise bot-block, challenge and CAPTCHA pages served instead of the product
+ *
+ * Looks at what the page answered with after navigation: the HTTP status,
+ * response headers, the title and markup only challenge pages carry. Widgets
+ * that also appear on normal pages (a reCAPTCHA on a review form) only name
+ * the vendor of a page that already looks blocked.
+ */
+
+import { BlockInfo, BlockVendor } from './types';
+
+export interface BlockSignals {
+  status?: number;
+  // Lower-cased header names
+  headers: Record<string, string>;
+  title: string;
+  html: string;
+}
+
+interface VendorRule {
+  vendor: BlockVendor;
+  // Header values sent only with a challenge
+  headers?: Array<[string, RegExp]>;
+  titles?: RegExp[];
+  markup?: RegExp[];
+}
+
+const VENDOR_RULES: VendorRule[] = [
+  {
+    vendor: 'cloudflare',
+    headers: [['cf-mitigated', /challenge/i]],
+    titles: [/^just a moment\.\.\.$/i, /attention required! \| cloudflare/i],
+    markup: [/window\._cf_chl_opt/, /id="challenge-form"/, /cf-browser-verification/],
+  },
+  {
+    vendor: 'datadome',
+    markup: [/captcha-delivery\.com/],
+  },
+  {
+    vendor: 'perimeterx',
+    titles: [/access to this page has been denied/i],
+    markup: [/id="px-captcha"/, /_pxCaptcha/],
+  },
+  {
+    vendor: 'imperva',
+    markup: [/Incapsula incident ID/i],
+  },
+  {
+    vendor: 'akamai',
+    markup: [/errors\.edgesuite\.net/],
+  },
+  {
+    vendor: 'aws-waf',
+    headers: [['x-amzn-waf-action', /captcha|challenge|block/i]],
+  },
+];
+
+// Headers that name the protection in front of a site, used once a page looks blocked
+const VENDOR_HEADERS: Array<[string, RegExp, BlockVendor]> = [
+  ['server', /cloudflare/i, 'cloudflare'],
+  ['server', /akamaighost/i, 'akamai'],
+  ['x-datadome', /./, 'datadome'],
+  ['x-iinfo', /./, 'imperva'],
+  ['x-amzn-waf-action', /./, 'aws-waf'],
+];
+
+const CAPTCHA_WIDGETS: Array<[RegExp, BlockVendor]> = [
+  [/google\.com\/recaptcha|class="g-recaptcha"/, 'recaptcha'],
+  [/hcaptcha\.com|class="h-captcha"/, 'hcaptcha'],
+];
+
+const BLOCKED_TITLES = [
+  /^access denied$/i,
+  /are you a (robot|human)/i,
+  /verify you are (a )?human/i,
+  /pardon our interruption/i,
+  /request (was )?blocked/i,
+  // Only as the whole title, optionally with the site's name: "Security check - Shop", not "Captcha Socks"
+  /^security check(\s*[-|:–].*)?$/i,
+  /^captcha(\s*[-|:–].*)?$/i,
+];
+
+/**
+ * Classify a response as a block page, naming the vendor when it can be told
+ */
+export function detectBlock(signals: BlockSignals): BlockInfo | null {
+  const { status, headers, title } = signals;
+  const trimmedTitle = title.trim();
+
+  for (const rule of VENDOR_RULES) {
+    for (const [name, pattern] of rule.headers || []) {
+      if (headers[name] && pattern.test(headers[name])) {
+        return { vendor: rule.vendor, reason: `${name}: ${headers[name]}`, status };
+      }
+    }
+    const matchedTitle = rule.titles?.find(pattern => pattern.test(trimmedTitle));
+    if (matchedTitle) {
+      return { vendor: rule.vendor, reason: `title "${trimmedTitle}"`, status };
+    }
+    const matchedMarkup = rule.markup?.find(pattern => pattern.test(signals.html));
+    if (matchedMarkup) {
+      return { vendor: rule.vendor, reason: 'challenge markup', status };
+    }
+  }
+
+  if (status !== undefined && isBlockedStatus(status)) {
+    return { vendor: guessVendor(signals), reason: `HTTP ${status}`, status };
+  }
+
+  if (BLOCKED_TITLES.some(pattern => pattern.test(trimmedTitle))) {
+    return { vendor: guessVendor(signals), reason: `title "${trimmedTitle}"`, status };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a navigation status means the site refused the request, or the proxy's IP
+ */
+export function isBlockedStatus(status: number): boolean {
+  return status === 403 || status === 429;
+}
+
+// Who is behind a page that looks blocked but carries no vendor's challenge markup
+function guessVendor(signals: BlockSignals): BlockVendor {
+  for (const [name, pattern, vendor] of VENDOR_HEADERS) {
+    if (signals.headers[name] && pattern.test(signals.headers[name])) return vendor;
+  }
+  for (const [pattern, vendor] of CAPTCHA_WIDGETS) {
+    if (pattern.test(signals.html)) return vendor;
+  }
+  return 'unknown';
+}
@@ -0,0 +1,97 @@
+/**
+ * Checks on job callback URLs, so a caller cannot make the service POST to
+ * itself, its Redis or anything else on the private network
+ *
+ * Only http and https are allowed. When an allowlist of hosts is configured
+ * only those hosts are, and they are trusted wherever they resolve to.
+ * Without one any host goes whose addresses are all public.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address points into the local machine or a private network
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a callback URL is refused, judged from the URL alone; null when it may be used
+ */
+export function getCallbackUrlError(url: string, allowedHosts: string[]): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'Callback URL must use http or https';
+  }
+
+  const host = hostOf(parsed);
+  if (allowedHosts.length > 0) {
+    return allowedHosts.includes(host) ? null : `Callback host ${host} is not allowed`;
+  }
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return `Callback host ${host} is a private address`;
+  }
+  return null;
+}
+
+/**
+ * Throw unless a callback may be sent to a URL, also checking every address
+ * its host resolves to when no allowlist is configured
+ */
+export async function checkCallbackUrl(url: string, allowedHosts: string[]): Promise<void> {
+  const error = getCallbackUrlError(url, allowedHosts);
+  if (error) throw new Error(error);
+  if (allowedHosts.length > 0) return;
+
+  const host = hostOf(new URL(url));
+  if (isIP(host)) return;
+
+  const addresses = await lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new Error(`Callback host ${host} resolves to private address ${blocked.address}`);
+  }
+}
+
+// Lower-cased host name, without the brackets around an IPv6 address
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+}
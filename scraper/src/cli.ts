@@ -0,0 +1,586 @@
+#!/usr/bin/env node
+/**
+ * Command-line tool for trying selectors and running scrapes without the HTTP
+ * service: it drives the Scraper class directly, with the service's settings
+ * from the environment and the same request validation.
+ *
+ * Exits 0 on success, 2 for bad usage, and otherwise with a code for the kind
+ * of failure (see EXIT_CODES), so scripts can tell a dead site from a broken
+ * selector.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs, ParseArgsConfig } from 'util';
+import { z } from 'zod';
+import { closeScraper, getScraper, ScrapeItemResult, toBatchResult, toScrapeResult } from './scraper';
+import { SCRAPER_DEFAULTS } from './config';
+import {
+  detectSelectorsRequestSchema,
+  requireUsableStrategy,
+  scrapeRequestSchema,
+  scrapeTargetSchema,
+} from './schemas';
+import { getErrorCode, ScrapeError } from './errors';
+import { parsePrice } from './utils';
+import { DetectedSelectors, ScrapeBatchResult, ScrapeErrorCode, ScrapeResult, SelectorKind } from './types';
+
+export const EXIT_CODES = {
+  OK: 0,
+  // Anything unexpected, including browser crashes
+  ERROR: 1,
+  USAGE: 2,
+  // The page could not be loaded: timeouts, network errors, HTTP errors
+  NETWORK: 3,
+  // The page loaded but no price came out of it
+  EXTRACTION: 4,
+  // A bot wall, or robots.txt disallows the URL
+  BLOCKED: 5,
+  // Some items of a batch failed
+  BATCH_FAILED: 6,
+} as const;
+
+const EXIT_CODE_BY_ERROR: Record<ScrapeErrorCode, number> = {
+  TIMEOUT: EXIT_CODES.NETWORK,
+  NAVIGATION_FAILED: EXIT_CODES.NETWORK,
+  HTTP_4XX: EXIT_CODES.NETWORK,
+  HTTP_5XX: EXIT_CODES.NETWORK,
+  SELECTOR_NOT_FOUND: EXIT_CODES.EXTRACTION,
+  EMPTY_TEXT: EXIT_CODES.EXTRACTION,
+  PRICE_PARSE_FAILED: EXIT_CODES.EXTRACTION,
+  ACTION_FAILED: EXIT_CODES.EXTRACTION,
+  BLOCKED: EXIT_CODES.BLOCKED,
+  ROBOTS_DISALLOWED: EXIT_CODES.BLOCKED,
+  PROXY_FAILED: EXIT_CODES.NETWORK,
+  PROXY_UNAVAILABLE: EXIT_CODES.NETWORK,
+  UNKNOWN: EXIT_CODES.ERROR,
+};
+
+const USAGE = `Usage: scraper <command> [options]
+
+Commands:
+  scrape <url>                Scrape one product page
+    --price <selector>        Price selector; without one, structured data is used
+    --price-type <type>       css (default), xpath or regex
+    --price-attribute <name>  Read the price from an attribute instead of the text
+    --name, --image <selector>
+    --original-price, --availability <selector>
+    --record <name>           Save the scrape as a fixture bundle
+  batch <file.json|file.csv>  Scrape every item of a file: a JSON array (or a
+                              /scrape/batch body), or a CSV with a url column
+                              and optional id, priceSelector, nameSelector, ...
+  detect <url>                Suggest price, name and image selectors
+    --limit <n>               Candidates per kind (default 5)
+  parse-price <text>          Parse a price string
+    --locale <locale>         Separators to read it with, e.g. de-DE
+    --currency <code>         Currency to assume when the text has none
+
+Scrape and batch options:
+  --mode <browser|http>       Fetch mode (default browser)
+  --locale <locale>, --currency <code>
+  --wait-for <selector>       Wait for a selector before extracting
+  --timeout <ms>              Page timeout (default 30000)
+  --profile <name>, --proxy-pool <name>
+  --ignore-robots             Scrape URLs robots.txt disallows
+  --retries <n>               Attempts after a transient failure (default 2)
+
+Common options:
+  --json                      Print the service's JSON instead of a summary
+  -h, --help                  Show this help
+
+Exit codes: 0 success, 1 unexpected error, 2 bad usage, 3 page not loaded,
+4 no price extracted, 5 blocked or disallowed, 6 some batch items failed.`;
+
+// Settings a scrape takes from flags, and a batch applies to items without their own
+const SCRAPE_FLAGS = {
+  mode: { type: 'string' },
+  locale: { type: 'string' },
+  currency: { type: 'string' },
+  'wait-for': { type: 'string' },
+  timeout: { type: 'string' },
+  profile: { type: 'string' },
+  'proxy-pool': { type: 'string' },
+  'ignore-robots': { type: 'boolean' },
+  retries: { type: 'string' },
+} as const;
+
+const COMMON_FLAGS = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+// Batch CSV columns, and how a cell is read
+const CSV_COLUMNS: Record<string, (cell: string) => unknown> = {
+  id: String,
+  url: String,
+  priceSelector: String,
+  originalPriceSelector: String,
+  availabilitySelector: String,
+  nameSelector: String,
+  imageSelector: String,
+  fetchMode: String,
+  proxyPool: String,
+  profile: String,
+  currency: String,
+  locale: String,
+  waitForSelector: String,
+  recordFixture: String,
+  timeout: Number,
+  ignoreRobots: cell => cell.toLowerCase() === 'true',
+};
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_DETECT_LIMIT = 5;
+
+// Batch items may leave out the id that /scrape/batch requires
+const batchItemSchema = scrapeTargetSchema.extend({
+  id: z.string().optional(),
+}).superRefine(requireUsableStrategy);
+
+const batchFileSchema = z.array(batchItemSchema).min(1);
+
+/**
+ * A mistake in the command line, answered with a pointer to the usage text
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type Command = (args: string[]) => Promise<number>;
+
+const COMMANDS: Record<string, Command> = {
+  scrape: runScrape,
+  batch: runBatch,
+  detect: runDetect,
+  'parse-price': runParsePrice,
+};
+
+async function runScrape(args: string[]): Promise<number> {
+  const { values, positionals } = parse(args, {
+    ...SCRAPE_FLAGS,
+    price: { type: 'string' },
+    'price-type': { type: 'string' },
+    'price-attribute': { type: 'string' },
+    name: { type: 'string' },
+    image: { type: 'string' },
+    'original-price': { type: 'string' },
+    availability: { type: 'string' },
+    record: { type: 'string' },
+  });
+  const url = requirePositional(positionals, '<url>');
+
+  const request = scrapeRequestSchema.parse({
+    ...scrapeSettings(values),
+    url,
+    priceSelector: toSelector(values.price, values['price-type'], values['price-attribute']),
+    nameSelector: values.name,
+    imageSelector: values.image,
+    originalPriceSelector: values['original-price'],
+    availabilitySelector: values.availability,
+    recordFixture: values.record,
+  });
+
+  const scraper = await getScraper(SCRAPER_DEFAULTS);
+  const result = await scraper.scrapeItem(request, { timeout: DEFAULT_TIMEOUT }, parseRetries(values.retries));
+
+  const data = result.data ? toScrapeResult(result.data) : undefined;
+  if (values.json) {
+    printJson(
+      data
+        ? { success: true, data }
+        : { success: false, error: result.error, code: result.code, blocked: result.blocked, evidence: result.evidence }
+    );
+  } else if (data) {
+    printScrapeResult(data);
+  } else {
+    printFailure(result);
+  }
+
+  return exitCodeFor(result);
+}
+
+async function runBatch(args: string[]): Promise<number> {
+  const { values, positionals } = parse(args, SCRAPE_FLAGS);
+  const file = requirePositional(positionals, '<file>');
+
+  const defaults = scrapeSettings(values);
+  const items = batchFileSchema.parse(
+    (await readBatchFile(file)).map(item => ({ ...defaults, ...(item as object) }))
+  );
+
+  const scraper = await getScraper(SCRAPER_DEFAULTS);
+  const results = await scraper.scrapeBatch(items, { timeout: DEFAULT_TIMEOUT }, parseRetries(values.retries));
+  const batchResults = results.map((result, index) => toBatchResult(items[index].id ?? String(index + 1), result));
+  const failed = batchResults.filter(result => !result.success).length;
+
+  if (values.json) {
+    printJson({ success: failed === 0, results: batchResults });
+  } else {
+    batchResults.forEach((result, index) => printBatchResult(result, items[index].url));
+    console.log(`\n${batchResults.length - failed} of ${batchResults.length} succeeded`);
+  }
+
+  return failed > 0 ? EXIT_CODES.BATCH_FAILED : EXIT_CODES.OK;
+}
+
+async function runDetect(args: string[]): Promise<number> {
+  const { values, positionals } = parse(args, {
+    limit: { type: 'string' },
+    'wait-for': { type: 'string' },
+    timeout: { type: 'string' },
+  });
+  // Checked like a /detect-selectors body before the browser is launched
+  const { url, timeout, waitForSelector, limit } = detectSelectorsRequestSchema.parse({
+    url: requirePositional(positionals, '<url>'),
+    timeout: parseInteger(values.timeout, '--timeout', 1, 300000) ?? DEFAULT_TIMEOUT,
+    waitForSelector: values['wait-for'],
+    limit: parseInteger(values.limit, '--limit', 1, 20) ?? DEFAULT_DETECT_LIMIT,
+  });
+
+  const scraper = await getScraper(SCRAPER_DEFAULTS);
+  let candidates: DetectedSelectors;
+  try {
+    candidates = await scraper.detectSelectors(url, { timeout, waitForSelector }, limit);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = getErrorCode(error);
+    if (values.json) {
+      const blocked = error instanceof ScrapeError ? error.block : undefined;
+      printJson({ success: false, error: message, code, blocked });
+    } else {
+      console.error(message);
+    }
+    return EXIT_CODE_BY_ERROR[code];
+  }
+
+  if (values.json) {
+    printJson({ success: true, data: { url, candidates } });
+  } else {
+    printCandidates(candidates);
+  }
+
+  // Nothing to build a scrape on
+  return candidates.price.length > 0 ? EXIT_CODES.OK : EXIT_CODES.EXTRACTION;
+}
+
+async function runParsePrice(args: string[]): Promise<number> {
+  const { values, positionals } = parse(args, {
+    locale: { type: 'string' },
+    currency: { type: 'string' },
+  });
+  const text = requirePositional(positionals, '<text>');
+
+  try {
+    const { price, currency } = parsePrice(text, { locale: values.locale, currency: values.currency });
+    if (values.json) {
+      printJson({ success: true, data: { price, currency } });
+    } else {
+      console.log(`${price} ${currency}`);
+    }
+    return EXIT_CODES.OK;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (values.json) {
+      printJson({ success: false, error: message, code: 'PRICE_PARSE_FAILED' });
+    } else {
+      console.error(message);
+    }
+    return EXIT_CODES.EXTRACTION;
+  }
+}
+
+/**
+ * Parse a command's flags, adding the common ones
+ */
+function parse<T extends NonNullable<ParseArgsConfig['options']>>(args: string[], options: T) {
+  return parseArgs({
+    args,
+    options: { ...options, ...COMMON_FLAGS },
+    allowPositionals: true,
+    strict: true,
+  });
+}
+
+function requirePositional(positionals: string[], name: string): string {
+  if (positionals.length !== 1) {
+    throw new UsageError(positionals.length === 0 ? `Missing ${name}` : `Expected one ${name}, got ${positionals.length}`);
+  }
+  return positionals[0];
+}
+
+function parseInteger(value: string | undefined, flag: string, min: number, max: number): number | undefined {
+  if (value === undefined) return undefined;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new UsageError(`${flag} must be a whole number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+function parseRetries(value: string | undefined): number {
+  // retry() counts attempts, the flag counts attempts after the first
+  return (parseInteger(value, '--retries', 0, 10) ?? DEFAULT_RETRIES) + 1;
+}
+
+/**
+ * Scrape settings from flags, in request field names; unset flags are left out
+ * so batch items keep their own
+ */
+function scrapeSettings(values: {
+  mode?: string;
+  locale?: string;
+  currency?: string;
+  'wait-for'?: string;
+  timeout?: string;
+  profile?: string;
+  'proxy-pool'?: string;
+  'ignore-robots'?: boolean;
+}): Record<string, unknown> {
+  const settings: Record<string, unknown> = {
+    fetchMode: values.mode,
+    locale: values.locale,
+    currency: values.currency,
+    waitForSelector: values['wait-for'],
+    timeout: parseInteger(values.timeout, '--timeout', 1, 300000),
+    profile: values.profile,
+    proxyPool: values['proxy-pool'],
+    ignoreRobots: values['ignore-robots'],
+  };
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+}
+
+function toSelector(value: string | undefined, type: string | undefined, attribute: string | undefined): unknown {
+  if (!value) return undefined;
+  if (!type && !attribute) return value;
+  return { type: type || 'css', value, attribute };
+}
+
+/**
+ * Batch items from a JSON or CSV file, not yet validated
+ */
+async function readBatchFile(file: string): Promise<unknown[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.csv') return fromCsv(text);
+  if (extension !== '.json') {
+    throw new UsageError(`Batch files must be .json or .csv: ${file}`);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    throw new UsageError(`${file} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  // A saved /scrape/batch body works as is
+  if (body && typeof body === 'object' && 'competitors' in body) {
+    body = (body as { competitors: unknown }).competitors;
+  }
+  if (!Array.isArray(body)) {
+    throw new UsageError(`${file} must hold an array of items or a { "competitors": [...] } object`);
+  }
+  return body;
+}
+
+function fromCsv(text: string): Array<Record<string, unknown>> {
+  const [header, ...rows] = parseCsv(text).filter(row => row.some(cell => cell.trim()));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  const unknown = columns.filter(column => !(column in CSV_COLUMNS));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown CSV columns: ${unknown.join(', ')}`);
+  }
+  if (!columns.includes('url')) {
+    throw new UsageError('CSV needs a url column');
+  }
+
+  return rows.map(row => {
+    const item: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const cell = row[index]?.trim();
+      if (cell) item[column] = CSV_COLUMNS[column](cell);
+    });
+    return item;
+  });
+}
+
+/**
+ * Split CSV text into rows of cells: quoted cells may hold commas, newlines
+ * and doubled quotes
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      // \r\n ends one row, not two
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function exitCodeFor(result: ScrapeItemResult): number {
+  if (result.success) return EXIT_CODES.OK;
+  return EXIT_CODE_BY_ERROR[result.code ?? 'UNKNOWN'];
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Label/value lines with the values lined up; empty values are skipped
+ */
+function printFields(fields: Array<[string, string | number | undefined]>): void {
+  const shown = fields.filter(([, value]) => value !== undefined && value !== '');
+  const width = Math.max(...shown.map(([label]) => label.length));
+  for (const [label, value] of shown) {
+    console.log(`${label.padEnd(width)}  ${value}`);
+  }
+}
+
+function printScrapeResult(data: ScrapeResult): void {
+  printFields([
+    ['Price', `${data.price} ${data.currency} (${data.priceSource}, "${data.rawPrice}")`],
+    [
+      'Was',
+      data.originalPrice !== undefined
+        ? `${data.originalPrice} ${data.currency}${data.discountPercent ? ` (-${data.discountPercent}%)` : ''}`
+        : undefined,
+    ],
+    ['Name', data.productName],
+    ['Availability', data.availability],
+    ['Image', data.imageUrl],
+    ['Adapter', data.adapter],
+    ['Fetch mode', data.fetchMode],
+    ['Profile', data.profile],
+    ['Proxy pool', data.proxyPool],
+    ['Screenshot', data.evidence?.screenshot?.id],
+    ['HTML', data.evidence?.html?.id],
+  ]);
+}
+
+function printFailure(result: ScrapeItemResult): void {
+  console.error(`Failed (${result.code ?? 'UNKNOWN'}): ${result.error}`);
+  if (result.blocked) {
+    console.error(`Blocked by ${result.blocked.vendor}: ${result.blocked.reason}`);
+  }
+  if (result.evidence?.screenshot) console.error(`Screenshot: ${result.evidence.screenshot.id}`);
+  if (result.evidence?.html) console.error(`HTML: ${result.evidence.html.id}`);
+}
+
+function printBatchResult(result: ScrapeBatchResult, url: string): void {
+  if (result.success && result.data) {
+    console.log(`ok    ${result.id}  ${result.data.price} ${result.data.currency}  ${url}`);
+  } else {
+    console.log(`FAIL  ${result.id}  ${result.code ?? 'UNKNOWN'}: ${result.error}`);
+  }
+}
+
+function printCandidates(candidates: DetectedSelectors): void {
+  for (const kind of Object.keys(candidates) as SelectorKind[]) {
+    console.log(kind);
+    if (candidates[kind].length === 0) {
+      console.log('  (none found)');
+    }
+    for (const candidate of candidates[kind]) {
+      const sample = candidate.sampleValue ? `  "${candidate.sampleValue}"` : '';
+      console.log(`  ${candidate.score.toFixed(2)}  ${candidate.selector}${sample}`);
+    }
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help' || command === 'help') {
+    console.log(USAGE);
+    return command ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+  }
+  if (args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return EXIT_CODES.OK;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+  return run(args);
+}
+
+/**
+ * Exit code and message for an error that escaped a command
+ */
+function reportError(error: unknown): number {
+  if (error instanceof z.ZodError) {
+    for (const issue of error.errors) {
+      console.error(`${issue.path.join('.') || 'input'}: ${issue.message}`);
+    }
+    return EXIT_CODES.USAGE;
+  }
+  // parseArgs reports unknown and malformed flags with ERR_PARSE_ARGS_* codes
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  if (error instanceof UsageError || (typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS'))) {
+    console.error(`${(error as Error).message}\nRun with --help for usage.`);
+    return EXIT_CODES.USAGE;
+  }
+
+  console.error(error instanceof Error ? error.message : String(error));
+  return EXIT_CODES.ERROR;
+}
+
+/**
+ * Run a command line, returning the exit code instead of exiting
+ */
+export function runCli(argv: string[]): Promise<number> {
+  return main(argv).catch(reportError);
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(async code => {
+    await closeScraper();
+    // Pending timers (politeness, supervision) must not keep the process alive
+    process.exit(code);
+  });
+}
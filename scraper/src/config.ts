@@ -0,0 +1,47 @@
+/**
+ * Scraper settings from the environment, shared by the HTTP service and the CLI
+ */
+
+import { parseProxyPools } from './proxy';
+import { parseEmulationProfiles } from './emulation';
+import { ScraperOptions } from './types';
+
+// Load environment variables
+require('dotenv').config();
+
+export const SCRAPER_CONCURRENCY = parseInt(process.env.SCRAPER_CONCURRENCY || '5');
+export const PROXY_POOLS = parseProxyPools(process.env.PROXY_POOLS);
+export const EMULATION_PROFILES = parseEmulationProfiles(process.env.EMULATION_PROFILES);
+// Hosts job callbacks may go to; empty allows any public host
+export const CALLBACK_ALLOWED_HOSTS = (process.env.CALLBACK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+const DOMAIN_MIN_INTERVAL = parseInt(process.env.DOMAIN_MIN_INTERVAL || '2000');
+const DOMAIN_CONCURRENCY = parseInt(process.env.DOMAIN_CONCURRENCY || '2');
+const BLOCK_BACKOFF = parseInt(process.env.BLOCK_BACKOFF || '60000');
+const ARTIFACT_DIR = process.env.ARTIFACT_DIR || './artifacts';
+const FIXTURE_DIR = process.env.FIXTURE_DIR || './fixtures';
+const CONTEXT_RECYCLE_AFTER = parseInt(process.env.CONTEXT_RECYCLE_AFTER || '50');
+const BROWSER_MEMORY_LIMIT = parseInt(process.env.BROWSER_MEMORY_LIMIT || '1536');
+const PAGE_HANG_TIMEOUT = parseInt(process.env.PAGE_HANG_TIMEOUT || '180000');
+
+// Shared scraper settings, applied when the scraper is first created
+export const SCRAPER_DEFAULTS: ScraperOptions = {
+  concurrency: SCRAPER_CONCURRENCY,
+  proxyPools: PROXY_POOLS,
+  emulationProfiles: EMULATION_PROFILES,
+  artifactDir: ARTIFACT_DIR,
+  fixtureDir: FIXTURE_DIR,
+  politeness: {
+    minInterval: DOMAIN_MIN_INTERVAL,
+    maxPerHost: DOMAIN_CONCURRENCY,
+    robotsUserAgent: process.env.ROBOTS_USER_AGENT || undefined,
+    blockBackoff: BLOCK_BACKOFF,
+  },
+  supervision: {
+    recycleAfter: CONTEXT_RECYCLE_AFTER,
+    maxBrowserMemory: BROWSER_MEMORY_LIMIT,
+    pageTimeout: PAGE_HANG_TIMEOUT,
+  },
+};
@@ -0,0 +1,245 @@
+/**
+ * Currency and number-format data used by parsePrice
+ */
+
+/**
+ * Currency symbols that map to exactly one ISO 4217 code.
+ * Multi-character symbols must be matched before the single characters they contain.
+ */
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD',
+  'CA$': 'CAD',
+  'C$': 'CAD',
+  'AU$': 'AUD',
+  'A$': 'AUD',
+  'NZ$': 'NZD',
+  'MX$': 'MXN',
+  'HK$': 'HKD',
+  'NT$': 'TWD',
+  'S$': 'SGD',
+  'R$': 'BRL',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+  '₽': 'RUB',
+  'руб': 'RUB',
+  '₩': 'KRW',
+  '₺': 'TRY',
+  '₪': 'ILS',
+  '₫': 'VND',
+  '฿': 'THB',
+  '₱': 'PHP',
+  '₦': 'NGN',
+  '₴': 'UAH',
+  '₸': 'KZT',
+  '₡': 'CRC',
+  '₲': 'PYG',
+  '₵': 'GHS',
+  '₼': 'AZN',
+  '₾': 'GEL',
+  'zł': 'PLN',
+  'Kč': 'CZK',
+  'Ft': 'HUF',
+  'lei': 'RON',
+  'Rp': 'IDR',
+  'RM': 'MYR',
+};
+
+/**
+ * Symbols shared by several currencies, resolved by the locale's region
+ */
+export const AMBIGUOUS_CURRENCY_SYMBOLS: Record<string, { fallback: string; regions: Record<string, string> }> = {
+  '$': {
+    fallback: 'USD',
+    regions: {
+      US: 'USD',
+      CA: 'CAD',
+      AU: 'AUD',
+      NZ: 'NZD',
+      MX: 'MXN',
+      SG: 'SGD',
+      HK: 'HKD',
+      TW: 'TWD',
+      AR: 'ARS',
+      CL: 'CLP',
+      CO: 'COP',
+      UY: 'UYU',
+    },
+  },
+  '¥': {
+    fallback: 'JPY',
+    regions: {
+      JP: 'JPY',
+      CN: 'CNY',
+    },
+  },
+  'kr': {
+    fallback: 'SEK',
+    regions: {
+      SE: 'SEK',
+      NO: 'NOK',
+      DK: 'DKK',
+      IS: 'ISK',
+    },
+  },
+  // Before "Rs", so the dot is not read as part of the number
+  'Rs.': {
+    fallback: 'INR',
+    regions: {
+      IN: 'INR',
+      PK: 'PKR',
+      LK: 'LKR',
+      NP: 'NPR',
+      MU: 'MUR',
+    },
+  },
+  'Rs': {
+    fallback: 'INR',
+    regions: {
+      IN: 'INR',
+      PK: 'PKR',
+      LK: 'LKR',
+      NP: 'NPR',
+      MU: 'MUR',
+    },
+  },
+};
+
+/**
+ * Currency of each region, for prices with a locale but no currency in the text
+ */
+const REGION_CURRENCIES: Record<string, string> = {
+  US: 'USD',
+  CA: 'CAD',
+  MX: 'MXN',
+  BR: 'BRL',
+  AR: 'ARS',
+  CL: 'CLP',
+  CO: 'COP',
+  PE: 'PEN',
+  UY: 'UYU',
+  GB: 'GBP',
+  IE: 'EUR',
+  FR: 'EUR',
+  DE: 'EUR',
+  AT: 'EUR',
+  BE: 'EUR',
+  NL: 'EUR',
+  LU: 'EUR',
+  IT: 'EUR',
+  ES: 'EUR',
+  PT: 'EUR',
+  FI: 'EUR',
+  GR: 'EUR',
+  CY: 'EUR',
+  MT: 'EUR',
+  SK: 'EUR',
+  SI: 'EUR',
+  EE: 'EUR',
+  LV: 'EUR',
+  LT: 'EUR',
+  HR: 'EUR',
+  BG: 'EUR',
+  CH: 'CHF',
+  LI: 'CHF',
+  SE: 'SEK',
+  NO: 'NOK',
+  DK: 'DKK',
+  IS: 'ISK',
+  PL: 'PLN',
+  CZ: 'CZK',
+  HU: 'HUF',
+  RO: 'RON',
+  RU: 'RUB',
+  UA: 'UAH',
+  KZ: 'KZT',
+  TR: 'TRY',
+  IL: 'ILS',
+  AE: 'AED',
+  SA: 'SAR',
+  EG: 'EGP',
+  ZA: 'ZAR',
+  NG: 'NGN',
+  KE: 'KES',
+  IN: 'INR',
+  PK: 'PKR',
+  LK: 'LKR',
+  NP: 'NPR',
+  JP: 'JPY',
+  CN: 'CNY',
+  HK: 'HKD',
+  TW: 'TWD',
+  KR: 'KRW',
+  SG: 'SGD',
+  MY: 'MYR',
+  ID: 'IDR',
+  TH: 'THB',
+  VN: 'VND',
+  PH: 'PHP',
+  AU: 'AUD',
+  NZ: 'NZD',
+};
+
+const isoCurrencyCodes = new Set<string>(Intl.supportedValuesOf('currency'));
+
+/**
+ * Whether a string is an ISO 4217 currency code known to the runtime
+ */
+export function isCurrencyCode(code: string): boolean {
+  return isoCurrencyCodes.has(code.toUpperCase());
+}
+
+/**
+ * Number of decimal places a currency is normally written with (JPY 0, KWD 3)
+ */
+export function getCurrencyFractionDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Decimal and grouping separators of a locale, with grouping spaces normalized
+ */
+export function getLocaleSeparators(locale: string): { decimal: string; group: string } {
+  let parts: Intl.NumberFormatPart[];
+  try {
+    parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+  } catch {
+    throw new Error(`Unknown locale: ${locale}`);
+  }
+
+  return {
+    decimal: normalizeSeparator(parts.find(part => part.type === 'decimal')?.value || '.'),
+    group: normalizeSeparator(parts.find(part => part.type === 'group')?.value || ','),
+  };
+}
+
+/**
+ * Region of a locale (e.g. "CA" for "en-CA", "JP" for "ja"), if it has one
+ */
+export function getLocaleRegion(locale: string): string | undefined {
+  try {
+    return new Intl.Locale(locale).maximize().region;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Currency of a locale's region (e.g. "EUR" for "de-DE"), if it is known
+ */
+export function getLocaleCurrency(locale: string): string | undefined {
+  const region = getLocaleRegion(locale);
+  return region ? REGION_CURRENCIES[region] : undefined;
+}
+
+/**
+ * Fold the many space and apostrophe variants used as separators into ' ' and "'"
+ */
+export function normalizeSeparator(value: string): string {
+  // \s already covers NBSP and the narrow/thin spaces Intl uses for grouping
+  return value.replace(/\s/g, ' ').replace(/[\u2018\u2019`\u00b4]/g, "'");
+}
@@ -0,0 +1,288 @@
+/**
+ * Automatic selector discovery
+ *
+ * Candidate elements are gathered in the page (common selectors, price-looking
+ * text, the h1) and scored here so the ranking rules stay testable in Node.
+ */
+
+import { Page } from 'playwright';
+import { SelectorCandidate, SelectorKind, DetectedSelectors } from './types';
+import { COMMON_PRICE_SELECTORS, COMMON_NAME_SELECTORS, COMMON_IMAGE_SELECTORS, parsePrice } from './utils';
+
+/**
+ * Text that looks like a price: a currency symbol or code next to a number
+ */
+export const PRICE_TEXT_PATTERN =
+  '(?:[$€£¥₹₽₩]|\\b[A-Z]{3}\\b)\\s?\\d[\\d.,\\s]*|\\d[\\d.,]*\\s?(?:[$€£¥₹₽₩]|\\b[A-Z]{3}\\b)';
+
+/**
+ * Element details collected in the browser for a single candidate
+ */
+export interface RawCandidate {
+  kind: SelectorKind;
+  selector: string;
+  matchedSelector: string | null;
+  tagName: string;
+  text: string;
+  src: string | null;
+  visible: boolean;
+  fontSize: number;
+  area: number;
+  distanceToH1: number | null;
+}
+
+const MAX_TEXT_SCAN = 300;
+const MAX_PER_SELECTOR = 10;
+
+/**
+ * Collect raw candidates from a loaded page
+ */
+export async function collectCandidates(page: Page): Promise<RawCandidate[]> {
+  const config = {
+    selectors: {
+      price: COMMON_PRICE_SELECTORS,
+      name: [...COMMON_NAME_SELECTORS, 'h1'],
+      image: COMMON_IMAGE_SELECTORS,
+    },
+    pricePattern: PRICE_TEXT_PATTERN,
+    maxTextScan: MAX_TEXT_SCAN,
+    maxPerSelector: MAX_PER_SELECTOR,
+  };
+
+  return page.$eval(
+    'body',
+    (body, { selectors, pricePattern, maxTextScan, maxPerSelector }) => {
+      const doc = body.ownerDocument;
+      const view = doc.defaultView!; // Always set for a document shown in a page
+      const escape = (value: string): string => view.CSS.escape(value);
+      const priceRegex = new RegExp(pricePattern);
+      const h1 = doc.querySelector('h1');
+      const h1Rect = h1 ? h1.getBoundingClientRect() : null;
+
+      // Shortest parent chain (max five levels) that uniquely matches the element
+      const cssPath = (element: Element): string => {
+        if (element.id && doc.querySelectorAll(`#${escape(element.id)}`).length === 1) {
+          return `#${escape(element.id)}`;
+        }
+
+        const parts: string[] = [];
+        let current: Element | null = element;
+        while (current && current !== body && parts.length < 5) {
+          if (current !== element && current.id) {
+            parts.unshift(`#${escape(current.id)}`);
+            break;
+          }
+
+          const tagName = current.tagName;
+          let part = tagName.toLowerCase();
+          const classes = Array.from(current.classList)
+            .filter(name => !/\d{3,}/.test(name))
+            .slice(0, 2);
+          if (classes.length) {
+            part += `.${classes.map(escape).join('.')}`;
+          }
+
+          const parent: Element | null = current.parentElement;
+          if (parent) {
+            const siblings = Array.from(parent.children).filter(child => child.tagName === tagName);
+            if (siblings.length > 1) {
+              part += `:nth-of-type(${siblings.indexOf(current) + 1})`;
+            }
+          }
+
+          parts.unshift(part);
+          if (doc.querySelectorAll(parts.join(' > ')).length === 1) break;
+          current = parent;
+        }
+
+        return parts.join(' > ');
+      };
+
+      const describe = (element: Element, kind: SelectorKind, matchedSelector: string | null): RawCandidate => {
+        const rect = element.getBoundingClientRect();
+        const style = view.getComputedStyle(element);
+        const visible =
+          rect.width > 0 &&
+          rect.height > 0 &&
+          style.visibility !== 'hidden' &&
+          style.display !== 'none' &&
+          style.opacity !== '0';
+
+        // The heading itself gets no proximity bonus, it is scored by tag instead
+        let distanceToH1: number | null = null;
+        if (h1Rect && element !== h1) {
+          const dx = rect.left + rect.width / 2 - (h1Rect.left + h1Rect.width / 2);
+          const dy = rect.top + rect.height / 2 - (h1Rect.top + h1Rect.height / 2);
+          distanceToH1 = Math.round(Math.sqrt(dx * dx + dy * dy));
+        }
+
+        return {
+          kind,
+          selector: cssPath(element),
+          matchedSelector,
+          tagName: element.tagName.toLowerCase(),
+          text: (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 200),
+          src:
+            (element instanceof view.HTMLImageElement && element.currentSrc) ||
+            element.getAttribute('src') ||
+            element.getAttribute('data-src') ||
+            null,
+          visible,
+          fontSize: parseFloat(style.fontSize) || 0,
+          area: Math.round(rect.width * rect.height),
+          distanceToH1,
+        };
+      };
+
+      const candidates: RawCandidate[] = [];
+
+      for (const kind of ['price', 'name', 'image'] as const) {
+        for (const selector of selectors[kind]) {
+          let nodes: Element[];
+          try {
+            nodes = Array.from(doc.querySelectorAll(selector)).slice(0, maxPerSelector);
+          } catch {
+            continue; // Selector not supported by this browser
+          }
+          for (const node of nodes) {
+            candidates.push(describe(node, kind, selector));
+          }
+        }
+      }
+
+      // Leaf-ish elements whose own text looks like a price
+      let scanned = 0;
+      for (const element of Array.from(body.querySelectorAll('*'))) {
+        if (scanned >= maxTextScan) break;
+        if (element.children.length > 2) continue;
+
+        const text = (element.textContent || '').trim();
+        if (!text || text.length > 40 || !priceRegex.test(text)) continue;
+
+        scanned++;
+        candidates.push(describe(element, 'price', null));
+      }
+
+      return candidates;
+    },
+    config
+  );
+}
+
+/**
+ * Merge duplicate candidates, score them and keep the best few per kind
+ */
+export function rankCandidates(raw: RawCandidate[], limit: number = 5): DetectedSelectors {
+  const merged = new Map<string, RawCandidate & { matchedSelectors: string[] }>();
+
+  for (const candidate of raw) {
+    const key = `${candidate.kind}|${candidate.selector}`;
+    const existing = merged.get(key);
+    if (existing) {
+      if (candidate.matchedSelector && !existing.matchedSelectors.includes(candidate.matchedSelector)) {
+        existing.matchedSelectors.push(candidate.matchedSelector);
+      }
+    } else {
+      merged.set(key, {
+        ...candidate,
+        matchedSelectors: candidate.matchedSelector ? [candidate.matchedSelector] : [],
+      });
+    }
+  }
+
+  const result: DetectedSelectors = { price: [], name: [], image: [] };
+  for (const candidate of merged.values()) {
+    const scored = scoreCandidate(candidate, candidate.matchedSelectors);
+    if (scored) {
+      result[candidate.kind].push(scored);
+    }
+  }
+
+  for (const kind of Object.keys(result) as SelectorKind[]) {
+    result[kind] = result[kind].sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  return result;
+}
+
+/**
+ * Score a single candidate, or drop it when it has nothing usable
+ */
+export function scoreCandidate(candidate: RawCandidate, matchedSelectors: string[]): SelectorCandidate | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (matchedSelectors.length > 0) {
+    score += 3;
+    reasons.push(`matches common selector ${matchedSelectors[0]}`);
+  }
+
+  if (candidate.visible) {
+    score += 2;
+    reasons.push('visible');
+  } else {
+    score -= 3;
+  }
+
+  if (candidate.distanceToH1 !== null) {
+    // Full bonus next to the h1, nothing beyond 1000px away
+    const proximity = 1 - Math.min(candidate.distanceToH1 / 1000, 1);
+    score += proximity * 2;
+    if (proximity > 0.5) reasons.push('close to the page heading');
+  }
+
+  let sampleValue: string | null = null;
+
+  switch (candidate.kind) {
+    case 'price': {
+      if (!candidate.text || candidate.text.length > 40) return null;
+
+      try {
+        const { price, currency } = parsePrice(candidate.text);
+        sampleValue = `${price} ${currency}`;
+      } catch {
+        return null; // Not parseable, useless as a price selector
+      }
+
+      if (new RegExp(PRICE_TEXT_PATTERN).test(candidate.text)) {
+        score += 3;
+        reasons.push('text looks like a price');
+      }
+      score += Math.min(candidate.fontSize / 16, 2);
+      break;
+    }
+    case 'name': {
+      if (!candidate.text || candidate.text.length > 200) return null;
+
+      sampleValue = candidate.text;
+      if (candidate.tagName === 'h1') {
+        score += 3;
+        reasons.push('is the page heading');
+      }
+      score += Math.min(candidate.fontSize / 16, 2);
+      break;
+    }
+    case 'image': {
+      if (!candidate.src) return null;
+
+      sampleValue = candidate.src;
+      // Product shots are big; icons and thumbnails are not
+      score += Math.min(candidate.area / 100000, 3);
+      break;
+    }
+  }
+
+  return {
+    selector: candidate.selector,
+    score: Math.round(score * 100) / 100,
+    sampleValue,
+    reasons,
+  };
+}
+
+/**
+ * Collect and rank selector candidates for a loaded page
+ */
+export async function detectSelectors(page: Page, limit?: number): Promise<DetectedSelectors> {
+  return rankCandidates(await collectCandidates(page), limit);
+}
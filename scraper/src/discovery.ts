@@ -0,0 +1,452 @@
+/**
+ * Catalog discovery: find a competitor's product URLs so they can be tracked in
+ * bulk, either from its sitemaps or by crawling out from a category page
+ *
+ * Sitemap mode starts from the Sitemap lines in robots.txt (else /sitemap.xml)
+ * and follows sitemap indexes, only into the product sitemaps when an index
+ * names some, as Shopify, WooCommerce and Magento do. Crawl mode fetches the
+ * seed page, its pagination and its subcategories on the same host, collecting
+ * links that look like product pages. Every fetch goes through the scraper, so
+ * discovery is paced per host and respects robots.txt like a scrape.
+ */
+
+import { randomUUID } from 'crypto';
+import { JSDOM } from 'jsdom';
+import { isFinished, JobQueue, notifyCallback, QueueWorker } from './jobs';
+import { matchesUrlPattern } from './network';
+import { TextDocument } from './static';
+import { DiscoveredProduct, DiscoveryJob, DiscoveryRequest } from './types';
+
+export const DEFAULT_DISCOVERY_MAX_PRODUCTS = 500;
+export const DEFAULT_DISCOVERY_MAX_PAGES = 25;
+
+/**
+ * Product pages fetched for their titles at most, as each is a paced request
+ */
+export const MAX_TITLE_FETCHES = 100;
+
+// Paths product pages commonly live under
+const PRODUCT_URL_PATTERNS = [
+  /\/products?\/[^/]+/i,
+  /\/p\/[^/]+/i,
+  /\/dp\/[a-z0-9]{10}/i,
+  /\/(item|items|artikel|produkt|produit|producto|prodotto)\/[^/]+/i,
+  /[-_/]p-?\d{3,}(\.html?)?$/i,
+];
+
+// Platforms name their product sitemaps sitemap_products_1.xml, product-sitemap.xml and so on
+const PRODUCT_SITEMAP_PATTERN = /product/i;
+
+// Query parameters that page through a category; other parameters (sorting, filters) are not crawled
+const PAGINATION_PARAMS = ['page', 'p', 'pg', 'pagenumber', 'start', 'offset'];
+
+/**
+ * How discovery fetches; the scraper paces these per host and checks robots.txt
+ */
+export interface DiscoveryFetcher {
+  fetchText(url: string, options?: { ignoreRobots?: boolean }): Promise<TextDocument>;
+  getSitemaps(url: string): Promise<string[]>;
+}
+
+export interface DiscoveryHooks {
+  // Checked before every fetch
+  isCancelled: () => Promise<boolean>;
+  // Called after every fetch with what has been found so far
+  onProgress: (pagesFetched: number, products: DiscoveredProduct[]) => Promise<void>;
+}
+
+export interface DiscoveryOutcome {
+  products: DiscoveredProduct[];
+  pagesFetched: number;
+  truncated: boolean;
+  cancelled: boolean;
+}
+
+interface SitemapEntry {
+  loc: string;
+  lastModified?: string;
+  title?: string;
+  imageUrl?: string;
+}
+
+/**
+ * Add the https:// that a bare domain ("shop.example.com") leaves out
+ */
+export function toSiteUrl(value: string): string {
+  const trimmed = value.trim();
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+/**
+ * Child sitemaps of a sitemap index and page entries of a URL set. Read with
+ * regular expressions rather than a DOM, as a sitemap can list 50,000 URLs.
+ */
+export function parseSitemap(xml: string): { sitemaps: string[]; entries: SitemapEntry[] } {
+  const sitemaps = Array.from(xml.matchAll(/<sitemap\b[^>]*>([\s\S]*?)<\/sitemap>/gi))
+    .map(([, block]) => readTag(block, 'loc'))
+    .filter((loc): loc is string => !!loc);
+
+  const entries: SitemapEntry[] = [];
+  for (const [, block] of xml.matchAll(/<url\b[^>]*>([\s\S]*?)<\/url>/gi)) {
+    const loc = readTag(block, 'loc');
+    if (!loc) continue;
+    // Shopify and Yoast list the product image, titled with the product name
+    entries.push({
+      loc,
+      lastModified: readTag(block, 'lastmod'),
+      title: readTag(block, 'image:title'),
+      imageUrl: readTag(block, 'image:loc'),
+    });
+  }
+
+  return { sitemaps, entries };
+}
+
+function readTag(block: string, name: string): string | undefined {
+  const match = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'i').exec(block);
+  if (!match) return undefined;
+  const value = decodeXml(match[1].replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, '$1')).trim();
+  return value || undefined;
+}
+
+function decodeXml(value: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return named[code.toLowerCase()] ?? entity;
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+  });
+}
+
+/**
+ * Find product URLs for a discovery request
+ */
+export function discoverProducts(
+  request: DiscoveryRequest,
+  fetcher: DiscoveryFetcher,
+  hooks: DiscoveryHooks
+): Promise<DiscoveryOutcome> {
+  return new CatalogWalk(request, fetcher, hooks).run();
+}
+
+/**
+ * One discovery run: the products found so far and the fetch budget left
+ */
+class CatalogWalk {
+  private readonly products = new Map<string, DiscoveredProduct>();
+  private readonly failures: string[] = [];
+  private readonly maxProducts: number;
+  private readonly maxPages: number;
+  private pagesFetched = 0;
+  private truncated = false;
+  private cancelled = false;
+
+  constructor(
+    private readonly request: DiscoveryRequest,
+    private readonly fetcher: DiscoveryFetcher,
+    private readonly hooks: DiscoveryHooks
+  ) {
+    this.maxProducts = request.maxProducts || DEFAULT_DISCOVERY_MAX_PRODUCTS;
+    this.maxPages = request.maxPages || DEFAULT_DISCOVERY_MAX_PAGES;
+  }
+
+  async run(): Promise<DiscoveryOutcome> {
+    const url = toSiteUrl(this.request.url);
+    if (this.request.mode === 'crawl') {
+      await this.crawl(url);
+    } else {
+      await this.readSitemaps(url);
+    }
+
+    // Nothing found because nothing could be read: report why
+    if (this.products.size === 0 && this.failures.length > 0) {
+      throw new Error(this.failures[0]);
+    }
+
+    if (this.request.fetchTitles) {
+      await this.fetchTitles();
+    }
+
+    return {
+      products: Array.from(this.products.values()),
+      pagesFetched: this.pagesFetched,
+      truncated: this.truncated,
+      cancelled: this.cancelled,
+    };
+  }
+
+  private async readSitemaps(siteUrl: string): Promise<void> {
+    const site = new URL(siteUrl);
+    const listed = /\.xml(\.gz)?$/i.test(site.pathname) ? [site.href] : await this.fetcher.getSitemaps(site.href);
+    const queue = listed.length > 0 ? listed : [`${site.origin}/sitemap.xml`];
+    const seen = new Set(queue);
+
+    while (queue.length > 0 && !this.isFull()) {
+      const sitemapUrl = queue.shift()!;
+      const document = await this.fetchPage(sitemapUrl);
+      if (document === null) return;
+      if (!document) continue;
+
+      const { sitemaps, entries } = parseSitemap(document.body);
+      // An index that names product sitemaps is only followed into those
+      const productSitemaps = sitemaps.filter(url => PRODUCT_SITEMAP_PATTERN.test(url));
+      for (const child of productSitemaps.length > 0 ? productSitemaps : sitemaps) {
+        if (!seen.has(child)) {
+          seen.add(child);
+          queue.push(child);
+        }
+      }
+
+      const listsProducts = PRODUCT_SITEMAP_PATTERN.test(sitemapUrl);
+      for (const entry of entries) {
+        this.consider(
+          entry.loc,
+          { title: entry.title, imageUrl: entry.imageUrl, lastModified: entry.lastModified, foundOn: sitemapUrl },
+          listsProducts
+        );
+      }
+    }
+  }
+
+  private async crawl(seedUrl: string): Promise<void> {
+    const seed = new URL(seedUrl);
+    seed.hash = '';
+    // Subcategories sit below the seed's path (also below "shoes" for shoes.html)
+    const scope = seed.pathname.replace(/\.html?$/i, '').replace(/\/$/, '');
+    const queue = [seed.href];
+    const seen = new Set(queue);
+
+    while (queue.length > 0 && !this.isFull()) {
+      const pageUrl = queue.shift()!;
+      const document = await this.fetchPage(pageUrl);
+      if (document === null) return;
+      if (!document || (document.contentType && !/html/i.test(document.contentType))) continue;
+
+      const dom = new JSDOM(document.body, { url: document.url });
+      try {
+        for (const link of Array.from(dom.window.document.querySelectorAll('a[href]'))) {
+          let target: URL;
+          try {
+            target = new URL((link as HTMLAnchorElement).href);
+          } catch {
+            continue;
+          }
+          target.hash = '';
+          if (target.hostname !== seed.hostname) continue;
+
+          const details = { title: linkTitle(link), imageUrl: linkImage(link), foundOn: document.url };
+          if (this.consider(target.href, details, false)) continue;
+
+          const isNext = /\bnext\b/i.test(link.getAttribute('rel') || '');
+          if (!seen.has(target.href) && (isNext || this.isListing(target, seed, scope))) {
+            seen.add(target.href);
+            queue.push(target.href);
+          }
+        }
+      } finally {
+        dom.window.close();
+      }
+    }
+  }
+
+  /**
+   * Name product pages that were found without one from their own pages
+   */
+  private async fetchTitles(): Promise<void> {
+    const untitled = Array.from(this.products.values())
+      .filter(product => !product.title)
+      .slice(0, MAX_TITLE_FETCHES);
+
+    for (const product of untitled) {
+      const document = await this.fetchPage(product.url, false);
+      if (document === null) return;
+      if (!document) continue;
+
+      const dom = new JSDOM(document.body, { url: document.url });
+      try {
+        const page = dom.window.document;
+        const title =
+          page.querySelector('meta[property="og:title"]')?.getAttribute('content') ||
+          page.querySelector('h1')?.textContent ||
+          page.title;
+        product.title = title?.replace(/\s+/g, ' ').trim() || undefined;
+        product.imageUrl =
+          product.imageUrl || page.querySelector('meta[property="og:image"]')?.getAttribute('content') || undefined;
+      } finally {
+        dom.window.close();
+      }
+    }
+  }
+
+  /**
+   * Fetch a sitemap or page: undefined when it failed, null once the job is
+   * cancelled or (for sitemaps and category pages) the page budget is spent
+   */
+  private async fetchPage(url: string, counted = true): Promise<TextDocument | null | undefined> {
+    if (this.cancelled || (counted && this.pagesFetched >= this.maxPages)) return null;
+    if (await this.hooks.isCancelled()) {
+      this.cancelled = true;
+      return null;
+    }
+
+    if (counted) this.pagesFetched++;
+    try {
+      return await this.fetcher.fetchText(url, { ignoreRobots: this.request.ignoreRobots });
+    } catch (error) {
+      const message = `${url}: ${error instanceof Error ? error.message : String(error)}`;
+      console.warn(`Discovery could not fetch ${message}`);
+      this.failures.push(message);
+      return undefined;
+    } finally {
+      await this.hooks.onProgress(this.pagesFetched, Array.from(this.products.values()));
+    }
+  }
+
+  /**
+   * Record a URL if it is a product page; returns whether it was one
+   */
+  private consider(rawUrl: string, details: Omit<DiscoveredProduct, 'url'>, listedAsProduct: boolean): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(rawUrl);
+    } catch {
+      return false;
+    }
+    parsed.hash = '';
+    const url = parsed.href;
+    if (!this.isProduct(parsed, listedAsProduct)) return false;
+
+    const existing = this.products.get(url);
+    if (existing) {
+      // Grids often link a product twice, once from its image and once from its name
+      existing.title = existing.title || details.title;
+      existing.imageUrl = existing.imageUrl || details.imageUrl;
+      return true;
+    }
+
+    if (this.products.size >= this.maxProducts) {
+      this.truncated = true;
+      return true;
+    }
+    this.products.set(url, { url, ...details });
+    return true;
+  }
+
+  private isProduct(url: URL, listedAsProduct: boolean): boolean {
+    const { include = [], exclude = [] } = this.request;
+    // Product sitemaps list the home page too
+    if (url.pathname === '/' || exclude.some(pattern => matchesUrlPattern(url.href, pattern))) return false;
+    if (include.length > 0) return include.some(pattern => matchesUrlPattern(url.href, pattern));
+    return listedAsProduct || PRODUCT_URL_PATTERNS.some(pattern => pattern.test(url.pathname));
+  }
+
+  /**
+   * Whether a link is another page of the category being crawled: below its
+   * path, with no query parameters beyond the seed's own and pagination
+   */
+  private isListing(target: URL, seed: URL, scope: string): boolean {
+    const { exclude = [] } = this.request;
+    if (exclude.some(pattern => matchesUrlPattern(target.href, pattern))) return false;
+    if (!target.pathname.startsWith(scope)) return false;
+
+    return Array.from(target.searchParams.keys()).every(
+      name => seed.searchParams.has(name) || PAGINATION_PARAMS.includes(name.toLowerCase())
+    );
+  }
+
+  private isFull(): boolean {
+    return this.cancelled || this.truncated;
+  }
+}
+
+/**
+ * Product name as a grid links it: the link text, else its title or image alt
+ */
+function linkTitle(link: Element): string | undefined {
+  const text = link.textContent?.replace(/\s+/g, ' ').trim();
+  // Price-only or icon links say nothing about the product
+  const candidates = [text, link.getAttribute('title'), link.querySelector('img')?.getAttribute('alt')];
+  return candidates.map(value => value?.trim()).find(value => value && /\p{L}/u.test(value))?.slice(0, 200);
+}
+
+function linkImage(link: Element): string | undefined {
+  const image = link.querySelector('img');
+  const source = image?.getAttribute('src') || image?.getAttribute('data-src');
+  if (!source) return undefined;
+  try {
+    return new URL(source, link.ownerDocument.URL).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the record for a newly submitted discovery
+ */
+export function createDiscoveryJob(request: DiscoveryRequest): DiscoveryJob {
+  return {
+    id: randomUUID(),
+    status: 'queued',
+    url: toSiteUrl(request.url),
+    mode: request.mode || 'sitemap',
+    pagesFetched: 0,
+    products: [],
+    truncated: false,
+    callbackUrl: request.callbackUrl,
+    owner: request.owner,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Runs queued discoveries one at a time, saving the products found after
+ * every fetch so they can be polled while the walk goes on
+ */
+export class DiscoveryRunner extends QueueWorker<DiscoveryJob, DiscoveryRequest> {
+  constructor(
+    queue: JobQueue<DiscoveryJob, DiscoveryRequest>,
+    private readonly getFetcher: () => Promise<DiscoveryFetcher>
+  ) {
+    super(queue);
+  }
+
+  protected async runJob(id: string): Promise<void> {
+    const job = await this.queue.get(id);
+    if (!job || isFinished(job)) return;
+
+    const [request] = await this.queue.getItems(id);
+    // A discovery cut short by a restart starts over
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    job.pagesFetched = 0;
+    job.products = [];
+    await this.queue.save(job);
+
+    try {
+      const outcome = await discoverProducts(request, await this.getFetcher(), {
+        isCancelled: async () => this.stopped || (await this.queue.isCancelRequested(id)),
+        onProgress: async (pagesFetched, products) => {
+          job.pagesFetched = pagesFetched;
+          job.products = products;
+          await this.queue.save(job);
+        },
+      });
+
+      // Shutting down: leave it claimed so the next start runs it again
+      if (outcome.cancelled && !(await this.queue.isCancelRequested(id))) return;
+
+      job.status = outcome.cancelled ? 'cancelled' : 'completed';
+      job.pagesFetched = outcome.pagesFetched;
+      job.products = outcome.products;
+      job.truncated = outcome.truncated;
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    job.finishedAt = new Date().toISOString();
+    await this.queue.save(job);
+
+    await notifyCallback(job);
+  }
+}
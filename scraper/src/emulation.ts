@@ -0,0 +1,234 @@
+/**
+ * Named emulation profiles: the device, locale, time zone, location, headers
+ * and cookies a site sees, so regional and mobile-only prices can be tracked
+ *
+ * "desktop" and "mobile" are built in. More come from the EMULATION_PROFILES
+ * environment variable, e.g.
+ * {"de-mobile": {"device": "iPhone 13", "locale": "de-DE", "timezone": "Europe/Berlin",
+ *   "geolocation": {"latitude": 52.52, "longitude": 13.405}, "cookies": [{"name": "country", "value": "DE"}]}}
+ */
+
+import { BrowserContextOptions, devices } from 'playwright';
+import { EmulationCookie, EmulationProfileConfig } from './types';
+import { USER_AGENT_PRODUCT } from './utils';
+
+export const BUILT_IN_PROFILES: Record<string, EmulationProfileConfig> = {
+  desktop: { device: 'Desktop Chrome', locale: 'en-US' },
+  mobile: { device: 'iPhone 13', locale: 'en-US' },
+};
+
+/**
+ * What GET /profiles reports about a profile. Header and cookie values are left
+ * out as they may carry session tokens.
+ */
+export interface EmulationProfileSummary {
+  name: string;
+  device?: string;
+  locale?: string;
+  timezone?: string;
+  geolocation?: EmulationProfileConfig['geolocation'];
+  headers: string[];
+  cookies: string[];
+}
+
+/**
+ * Cookie in the form Playwright's BrowserContext.addCookies takes
+ */
+export interface ContextCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+}
+
+export class EmulationProfiles {
+  private readonly profiles: Record<string, EmulationProfileConfig>;
+
+  constructor(profiles: Record<string, EmulationProfileConfig> = {}) {
+    this.profiles = { ...BUILT_IN_PROFILES, ...profiles };
+  }
+
+  /**
+   * Whether a profile with this name is built in or configured
+   */
+  has(name: string): boolean {
+    return name in this.profiles;
+  }
+
+  list(): EmulationProfileSummary[] {
+    return Object.entries(this.profiles).map(([name, profile]) => ({
+      name,
+      device: profile.device,
+      locale: profile.locale,
+      timezone: profile.timezone,
+      geolocation: profile.geolocation,
+      headers: Object.keys(buildHeaders(profile)),
+      cookies: (profile.cookies || []).map(cookie => cookie.name),
+    }));
+  }
+
+  /**
+   * Browser context options for a profile: the device descriptor with the
+   * profile's own settings on top
+   */
+  contextOptions(name: string): BrowserContextOptions {
+    const profile = this.get(name);
+    const options: BrowserContextOptions = {};
+
+    if (profile.device) {
+      const { defaultBrowserType: _browser, ...descriptor } = devices[profile.device];
+      Object.assign(options, descriptor);
+    }
+
+    const userAgent = getProfileUserAgent(profile);
+    if (userAgent) options.userAgent = userAgent;
+    if (profile.locale) options.locale = profile.locale;
+    if (profile.timezone) options.timezoneId = profile.timezone;
+    if (profile.geolocation) {
+      options.geolocation = profile.geolocation;
+      options.permissions = ['geolocation'];
+    }
+
+    const headers = buildHeaders(profile);
+    if (Object.keys(headers).length > 0) options.extraHTTPHeaders = headers;
+
+    return options;
+  }
+
+  /**
+   * Cookies to set before loading a URL under a profile
+   */
+  cookies(name: string, url: string): ContextCookie[] {
+    const host = new URL(url).hostname;
+    return (this.get(name).cookies || []).map(cookie => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain || host,
+      path: cookie.path || '/',
+    }));
+  }
+
+  /**
+   * Request headers for a plain HTTP fetch under a profile. Time zone and
+   * location only reach scripts, so they have no HTTP equivalent.
+   */
+  httpHeaders(name: string, url: string): Record<string, string> {
+    const profile = this.get(name);
+    const headers = buildHeaders(profile);
+
+    const userAgent = getProfileUserAgent(profile);
+    if (userAgent) headers['User-Agent'] = userAgent;
+
+    const { hostname, pathname } = new URL(url);
+    const cookies = (profile.cookies || []).filter(cookie => cookieMatches(cookie, hostname, pathname));
+    if (cookies.length > 0) {
+      headers.Cookie = cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+    }
+
+    return headers;
+  }
+
+  private get(name: string): EmulationProfileConfig {
+    const profile = this.profiles[name];
+    if (!profile) {
+      throw new Error(`Unknown emulation profile: ${name}`);
+    }
+    return profile;
+  }
+}
+
+/**
+ * Accept-Language for a locale, falling back to its bare language
+ * ("de-DE" -> "de-DE,de;q=0.9")
+ */
+export function toAcceptLanguage(locale: string): string {
+  const language = locale.split('-')[0];
+  return language && language !== locale ? `${locale},${language};q=0.9` : locale;
+}
+
+/**
+ * Read profiles from the EMULATION_PROFILES JSON, failing on anything the
+ * browser could not apply
+ */
+export function parseEmulationProfiles(value: string | undefined): Record<string, EmulationProfileConfig> {
+  if (!value || !value.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`EMULATION_PROFILES is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('EMULATION_PROFILES must be an object of named profiles');
+  }
+
+  for (const [name, entry] of Object.entries(parsed as Record<string, unknown>)) {
+    const profile = entry as Partial<EmulationProfileConfig> | null;
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+      throw new Error(`Emulation profile "${name}" must be an object`);
+    }
+    if (profile.device && !devices[profile.device]) {
+      throw new Error(`Emulation profile "${name}" has unknown device "${profile.device}"`);
+    }
+    if (profile.locale) {
+      try {
+        new Intl.Locale(profile.locale);
+      } catch {
+        throw new Error(`Emulation profile "${name}" has invalid locale "${profile.locale}"`);
+      }
+    }
+    if (profile.timezone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: profile.timezone });
+      } catch {
+        throw new Error(`Emulation profile "${name}" has unknown time zone "${profile.timezone}"`);
+      }
+    }
+    const geolocation = profile.geolocation;
+    if (
+      geolocation &&
+      (typeof geolocation.latitude !== 'number' ||
+        typeof geolocation.longitude !== 'number' ||
+        Math.abs(geolocation.latitude) > 90 ||
+        Math.abs(geolocation.longitude) > 180)
+    ) {
+      throw new Error(`Emulation profile "${name}" needs a numeric latitude and longitude`);
+    }
+    if (
+      profile.cookies &&
+      (!Array.isArray(profile.cookies) ||
+        profile.cookies.some(cookie => typeof cookie?.name !== 'string' || typeof cookie?.value !== 'string'))
+    ) {
+      throw new Error(`Emulation profile "${name}" needs cookies with a name and value`);
+    }
+  }
+
+  return parsed as Record<string, EmulationProfileConfig>;
+}
+
+// Device user agents keep the scraper's product token so sites can still tell who is visiting
+function getProfileUserAgent(profile: EmulationProfileConfig): string | undefined {
+  if (profile.userAgent) return profile.userAgent;
+  if (profile.device) return `${devices[profile.device].userAgent} ${USER_AGENT_PRODUCT}`;
+  return undefined;
+}
+
+// Accept-Language from the locale unless the profile sets it itself, then the profile's headers
+function buildHeaders(profile: EmulationProfileConfig): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const custom = profile.headers || {};
+  const setsLanguage = Object.keys(custom).some(header => header.toLowerCase() === 'accept-language');
+  if (profile.locale && !setsLanguage) {
+    headers['Accept-Language'] = toAcceptLanguage(profile.locale);
+  }
+  return { ...headers, ...custom };
+}
+
+function cookieMatches(cookie: EmulationCookie, hostname: string, pathname: string): boolean {
+  const domain = cookie.domain?.replace(/^\./, '').toLowerCase();
+  const host = hostname.toLowerCase();
+  if (domain && host !== domain && !host.endsWith(`.${domain}`)) return false;
+  return pathname.startsWith(cookie.path || '/');
+}
@@ -0,0 +1,101 @@
+/**
+ * Errors raised by the scraper, with a code saying why a scrape failed and
+ * whether trying again could help
+ */
+
+import { errors } from 'playwright';
+import { isBlockedStatus } from './blocking';
+import { BlockInfo, Evidence, ScrapeErrorCode } from './types';
+
+/**
+ * Status a proxy answers with when it refuses to forward a request
+ */
+export const PROXY_AUTH_REQUIRED = 407;
+
+export interface ScrapeErrorDetails {
+  // What the page looked like when it failed
+  evidence?: Evidence;
+  // The block or challenge page detected instead of the product
+  block?: BlockInfo;
+  // The failure this one wraps
+  cause?: unknown;
+}
+
+/**
+ * A scrape that failed, with the evidence captured from the page when it did
+ */
+export class ScrapeError extends Error {
+  readonly evidence?: Evidence;
+  readonly block?: BlockInfo;
+
+  constructor(readonly code: ScrapeErrorCode, message: string, details: ScrapeErrorDetails = {}) {
+    super(message, details.cause === undefined ? undefined : { cause: details.cause });
+    this.name = 'ScrapeError';
+    this.evidence = details.evidence;
+    this.block = details.block;
+  }
+}
+
+/**
+ * Whether a failure with a code is retried. Only transient failures are: a
+ * missing selector or an unparsable price will be the same on the next attempt.
+ */
+export const RETRY_POLICY: Record<ScrapeErrorCode, boolean> = {
+  TIMEOUT: true,
+  NAVIGATION_FAILED: true,
+  HTTP_4XX: false,
+  HTTP_5XX: true,
+  SELECTOR_NOT_FOUND: false,
+  EMPTY_TEXT: false,
+  PRICE_PARSE_FAILED: false,
+  // Retrying straight away only digs deeper; the host backs off instead
+  BLOCKED: false,
+  ROBOTS_DISALLOWED: false,
+  ACTION_FAILED: false,
+  // The next attempt goes through another proxy
+  PROXY_FAILED: true,
+  // Every proxy of the pool is resting; none will be back before the retries run out
+  PROXY_UNAVAILABLE: false,
+  // Browser crashes and the like, retried as before codes existed
+  UNKNOWN: true,
+};
+
+/**
+ * Code for any error: its own for scrape errors, else guessed from Playwright's error
+ */
+export function getErrorCode(error: unknown): ScrapeErrorCode {
+  if (error instanceof ScrapeError) return error.code;
+  if (error instanceof errors.TimeoutError) return 'TIMEOUT';
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/net::ERR_|NS_ERROR_|Navigation failed/i.test(message)) return 'NAVIGATION_FAILED';
+  return 'UNKNOWN';
+}
+
+/**
+ * Prefix a failure with what was being done, keeping its code, block and evidence
+ */
+export function wrapError(error: unknown, context: string): ScrapeError {
+  const message = `${context}: ${error instanceof Error ? error.message : String(error)}`;
+  return new ScrapeError(getErrorCode(error), message, {
+    evidence: error instanceof ScrapeError ? error.evidence : undefined,
+    block: error instanceof ScrapeError ? error.block : undefined,
+    cause: error,
+  });
+}
+
+/**
+ * Code for a page that answered with an error status
+ */
+export function getStatusCode(status: number): ScrapeErrorCode {
+  if (status === PROXY_AUTH_REQUIRED) return 'PROXY_FAILED';
+  if (isBlockedStatus(status)) return 'BLOCKED';
+  return status >= 500 ? 'HTTP_5XX' : 'HTTP_4XX';
+}
+
+/**
+ * Whether another attempt could succeed where this one failed
+ */
+export function isRetryable(error: unknown): boolean {
+  return RETRY_POLICY[getErrorCode(error)];
+}
@@ -0,0 +1,300 @@
+/**
+ * Fixture bundles for offline regression runs of extraction
+ *
+ * Recording keeps what a successful scrape fetched: the page's HTML and the
+ * scripts and XHR/fetch responses it loaded (or, in HTTP mode, the HTML and
+ * any JSON a site adapter asked for), together with the scrape's settings and
+ * result. Replaying serves those responses through Playwright request routing,
+ * aborting anything that was not recorded, runs extraction again and lists
+ * the fields that came out differently, so a change to parsePrice or to the
+ * extraction chain shows up without a live site.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Page, Response as PlaywrightResponse } from 'playwright';
+import { parseStaticDocument, StaticDocument } from './static';
+import { FetchMode, FixtureChange, FixtureSummary, ScrapedData, ScraperOptions, Selector } from './types';
+
+export const DEFAULT_FIXTURE_DIR = './fixtures';
+
+/**
+ * Fixture names double as file names, so nothing that could leave the directory
+ */
+export const FIXTURE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/;
+
+// Responses extraction can depend on; images, fonts and styles are left out
+const RECORDED_TYPES = new Set(['document', 'script', 'xhr', 'fetch']);
+const MAX_BODY_SIZE = 5 * 1024 * 1024;
+
+// Describe the body as it was received; it is stored decoded
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+// Fields compared between a recording and its replay
+const COMPARED_FIELDS = ['price', 'currency', 'originalPrice', 'availability', 'priceSource', 'productName'] as const;
+
+export interface FixtureResponse {
+  url: string;
+  method: string;
+  // Playwright resource type: document, script, xhr or fetch
+  type: string;
+  status: number;
+  headers: Record<string, string>;
+  // Base64, as scripts are not always valid UTF-8
+  body: string;
+}
+
+/**
+ * The settings of one scrape; the replaying scraper brings its own service
+ * settings, and proxies, evidence and recording do not apply offline
+ */
+export type FixtureOptions = Omit<
+  ScraperOptions,
+  | 'headless'
+  | 'concurrency'
+  | 'proxyPool'
+  | 'proxyPools'
+  | 'emulationProfiles'
+  | 'evidence'
+  | 'artifactDir'
+  | 'recordFixture'
+  | 'fixtureDir'
+  | 'politeness'
+  | 'supervision'
+>;
+
+export interface FixtureBundle {
+  name: string;
+  recordedAt: string;
+  fetchMode: FetchMode;
+  request: {
+    url: string;
+    priceSelector?: Selector;
+    nameSelector?: Selector;
+    imageSelector?: Selector;
+    options: FixtureOptions;
+  };
+  responses: FixtureResponse[];
+  result: ScrapedData;
+}
+
+/**
+ * How a scrape's fetches go through a fixture, either side: a recorder passes
+ * them on and keeps the answers, a replayer answers from the bundle
+ */
+export interface FixtureSession {
+  // Called on a leased page before it navigates
+  attach(page: Page): Promise<void>;
+  fetchDocument(live: () => Promise<StaticDocument>): Promise<StaticDocument>;
+  fetchJson(url: string, live: (url: string) => Promise<unknown>): Promise<unknown>;
+}
+
+export class FixtureRecorder implements FixtureSession {
+  private readonly pending: Array<Promise<FixtureResponse | null>> = [];
+
+  async attach(page: Page): Promise<void> {
+    page.on('response', response => {
+      if (RECORDED_TYPES.has(response.request().resourceType())) {
+        this.pending.push(toFixtureResponse(response).catch(() => null));
+      }
+    });
+  }
+
+  async fetchDocument(live: () => Promise<StaticDocument>): Promise<StaticDocument> {
+    const document = await live();
+    this.keep(document.url, 'document', 'text/html; charset=utf-8', document.html);
+    return document;
+  }
+
+  async fetchJson(url: string, live: (url: string) => Promise<unknown>): Promise<unknown> {
+    const value = await live(url);
+    if (value !== null) this.keep(url, 'fetch', 'application/json', JSON.stringify(value));
+    return value;
+  }
+
+  /**
+   * Everything recorded so far, once the pending bodies have been read
+   */
+  async responses(): Promise<FixtureResponse[]> {
+    const responses = await Promise.all(this.pending);
+    return responses.filter((response): response is FixtureResponse => response !== null);
+  }
+
+  private keep(url: string, type: string, contentType: string, body: string): void {
+    this.pending.push(
+      Promise.resolve({
+        url,
+        method: 'GET',
+        type,
+        status: 200,
+        headers: { 'content-type': contentType },
+        body: Buffer.from(body, 'utf8').toString('base64'),
+      })
+    );
+  }
+}
+
+export class FixtureReplayer implements FixtureSession {
+  constructor(private readonly bundle: FixtureBundle) {}
+
+  /**
+   * Serve the page from the bundle; requests that were not recorded fail, so
+   * a replay never reaches the network
+   */
+  async attach(page: Page): Promise<void> {
+    await page.route('**/*', async route => {
+      const request = route.request();
+      const response = this.find(request.url(), request.method());
+      if (!response) {
+        await route.abort('blockedbyclient');
+        return;
+      }
+      await route.fulfill({
+        status: response.status,
+        headers: response.headers,
+        body: Buffer.from(response.body, 'base64'),
+      });
+    });
+  }
+
+  async fetchDocument(): Promise<StaticDocument> {
+    const document = this.bundle.responses.find(response => response.type === 'document' && response.status < 300);
+    if (!document) {
+      throw new Error(`Fixture ${this.bundle.name} has no page HTML`);
+    }
+    return parseStaticDocument(document.url, Buffer.from(document.body, 'base64').toString('utf8'));
+  }
+
+  async fetchJson(url: string): Promise<unknown> {
+    const response = this.find(url, 'GET');
+    if (!response || response.status >= 400) return null;
+    try {
+      return JSON.parse(Buffer.from(response.body, 'base64').toString('utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private find(url: string, method: string): FixtureResponse | undefined {
+    return this.bundle.responses.find(response => response.url === url && response.method === method);
+  }
+}
+
+async function toFixtureResponse(response: PlaywrightResponse): Promise<FixtureResponse | null> {
+  const request = response.request();
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(await response.allHeaders())) {
+    if (!DROPPED_HEADERS.has(name.toLowerCase())) headers[name] = value;
+  }
+
+  // Redirects have no body, but replaying them needs their Location
+  const body = response.status() >= 300 && response.status() < 400 ? Buffer.alloc(0) : await response.body();
+  if (body.length > MAX_BODY_SIZE) return null;
+
+  return {
+    url: response.url(),
+    method: request.method(),
+    type: request.resourceType(),
+    status: response.status(),
+    headers,
+    body: body.toString('base64'),
+  };
+}
+
+/**
+ * The per-scrape part of scraper options, as kept in a bundle
+ */
+export function toFixtureOptions(options: ScraperOptions): FixtureOptions {
+  const {
+    headless,
+    concurrency,
+    proxyPool,
+    proxyPools,
+    emulationProfiles,
+    evidence,
+    artifactDir,
+    recordFixture,
+    fixtureDir,
+    politeness,
+    supervision,
+    ...scrapeOptions
+  } = options;
+  return scrapeOptions;
+}
+
+/**
+ * Fields of a replayed result that differ from the recording
+ */
+export function diffResults(recorded: ScrapedData, replayed: ScrapedData): FixtureChange[] {
+  return COMPARED_FIELDS.filter(field => recorded[field] !== replayed[field]).map(field => ({
+    field,
+    recorded: recorded[field],
+    replayed: replayed[field],
+  }));
+}
+
+/**
+ * Fixture bundles as one JSON file per name
+ */
+export class FixtureStore {
+  constructor(private readonly directory: string = DEFAULT_FIXTURE_DIR) {}
+
+  async save(bundle: FixtureBundle): Promise<void> {
+    const file = this.pathFor(bundle.name);
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so a replay never reads a partial bundle
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(bundle));
+    await fs.rename(temp, file);
+  }
+
+  /**
+   * Read a bundle by name; null for unknown or malformed names
+   */
+  async load(name: string): Promise<FixtureBundle | null> {
+    if (!FIXTURE_NAME_PATTERN.test(name)) return null;
+
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(name), 'utf8')) as FixtureBundle;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Names of the stored bundles, sorted
+   */
+  async names(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length))
+        .filter(name => FIXTURE_NAME_PATTERN.test(name))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  async list(): Promise<FixtureSummary[]> {
+    const bundles = await Promise.all((await this.names()).map(name => this.load(name)));
+    return bundles
+      .filter((bundle): bundle is FixtureBundle => bundle !== null)
+      .map(bundle => ({
+        name: bundle.name,
+        url: bundle.request.url,
+        fetchMode: bundle.fetchMode,
+        recordedAt: bundle.recordedAt,
+        price: bundle.result.price,
+        currency: bundle.result.currency,
+      }));
+  }
+
+  private pathFor(name: string): string {
+    if (!FIXTURE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid fixture name: ${name}`);
+    }
+    return path.join(this.directory, `${name}.json`);
+  }
+}
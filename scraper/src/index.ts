@@ -7,25 +7,47 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import { z } from 'zod';
-import { getScraper, closeScraper } from './scraper';
+import Redis from 'ioredis';
+import { getScraper, closeScraper, toBatchResult, toScrapeResult } from './scraper';
+import { PROXY_POOLS, SCRAPER_CONCURRENCY, SCRAPER_DEFAULTS } from './config';
+import {
+  detectSelectorsRequestSchema,
+  discoveryRequestSchema,
+  fixtureReplayRequestSchema,
+  scrapeBatchRequestSchema,
+  scrapeJobRequestSchema,
+  scrapeListRequestSchema,
+  scrapeRequestSchema,
+} from './schemas';
+import { ScrapeError, getErrorCode } from './errors';
+import { metricsMiddleware, registerGauge, registry } from './metrics';
+import { createJob, isFinished, JobQueue, JobRunner, MemoryJobQueue, RedisJobQueue } from './jobs';
+import { createDiscoveryJob, DiscoveryRunner } from './discovery';
 import type {
-  ScrapeRequest,
-  ScrapeBatchRequest,
   ScrapeResponse,
   ScrapeBatchResponse,
+  ScrapeBatchStreamEvent,
+  ScrapeJobResponse,
+  ScrapeListResponse,
+  DiscoveryJob,
+  DiscoveryJobResponse,
+  DiscoveryRequest,
+  FixtureReplay,
+  FixtureReplayResponse,
+  DetectSelectorsResponse,
 } from './types';
 
-// Load environment variables
-require('dotenv').config();
-
 const app = express();
 const PORT = process.env.PORT || 3000;
 const API_KEY = process.env.API_KEY || '';
+const REDIS_HOST = process.env.REDIS_HOST;
+const REDIS_PORT = parseInt(process.env.REDIS_PORT || '6379');
 
 // Middleware
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
+app.use(metricsMiddleware);
 
 // Rate limiting
 const limiter = rateLimit({
@@ -54,43 +76,61 @@ const validateApiKey = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
-// Request validation schemas
-const scrapeRequestSchema = z.object({
-  url: z.string().url(),
-  priceSelector: z.string().min(1),
-  nameSelector: z.string().optional(),
-  imageSelector: z.string().optional(),
-  currency: z.string().optional(),
-  waitForSelector: z.string().optional(),
-  timeout: z.number().optional(),
-});
+// Jobs survive restarts when Redis is configured; without it they live in memory
+const jobQueue: JobQueue = REDIS_HOST
+  ? new RedisJobQueue(new Redis({ host: REDIS_HOST, port: REDIS_PORT }))
+  : new MemoryJobQueue();
+const jobRunner = new JobRunner(
+  jobQueue,
+  async item => {
+    const scraper = await getScraper(SCRAPER_DEFAULTS);
+    return toBatchResult(item.id, await scraper.scrapeItem(item, { timeout: 30000 }));
+  },
+  SCRAPER_CONCURRENCY
+);
 
-const scrapeBatchRequestSchema = z.object({
-  competitors: z.array(
-    z.object({
-      id: z.string(),
-      url: z.string().url(),
-      priceSelector: z.string().min(1),
-      nameSelector: z.string().optional(),
-      imageSelector: z.string().optional(),
-      currency: z.string().optional(),
-      waitForSelector: z.string().optional(),
-      timeout: z.number().optional(),
-    })
-  ).min(1).max(50), // Limit to 50 competitors per batch
-});
+// Discoveries share the job queue's storage under their own prefix
+const discoveryQueue: JobQueue<DiscoveryJob, DiscoveryRequest> = REDIS_HOST
+  ? new RedisJobQueue(new Redis({ host: REDIS_HOST, port: REDIS_PORT }), 'scraper:discovery:')
+  : new MemoryJobQueue();
+const discoveryRunner = new DiscoveryRunner(discoveryQueue, () => getScraper(SCRAPER_DEFAULTS));
 
-// Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  res.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-  });
+registerGauge('scraper_pages_in_use', 'Browser pages currently leased out', async () =>
+  (await getScraper(SCRAPER_DEFAULTS)).getPoolStats().inUse
+);
+registerGauge('scraper_pages_waiting', 'Scrapes waiting for a free browser page', async () =>
+  (await getScraper(SCRAPER_DEFAULTS)).getPoolStats().pending
+);
+registerGauge('scraper_jobs_queued', 'Background jobs waiting to start', () => jobQueue.size());
+registerGauge('scraper_discoveries_queued', 'Catalog discoveries waiting to start', () => discoveryQueue.size());
+registerGauge('scraper_browser_restarts', 'Browser relaunches after a crash', async () =>
+  (await getScraper(SCRAPER_DEFAULTS)).getHealth().restarts
+);
+registerGauge('scraper_browser_memory_bytes', 'Resident memory of the browser processes', async () =>
+  (await getScraper(SCRAPER_DEFAULTS)).getHealth().memory || 0
+);
+
+// Health check endpoint: 503 only when the browser cannot be launched
+app.get('/health', async (_req: Request, res: Response) => {
+  try {
+    const browser = (await getScraper(SCRAPER_DEFAULTS)).getHealth();
+    res.status(browser.status === 'down' ? 503 : 200).json({
+      status: browser.status,
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      browser,
+    });
+  } catch (error) {
+    console.error('Health check error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
 });
 
 // Root endpoint
-app.get('/', (req: Request, res: Response) => {
+app.get('/', (_req: Request, res: Response) => {
   res.json({
     name: 'Competitor Tracker Scraper Service',
     version: '1.0.0',
@@ -98,6 +138,21 @@ app.get('/', (req: Request, res: Response) => {
       health: 'GET /health',
       scrape: 'POST /scrape',
       scrapeBatch: 'POST /scrape/batch',
+      scrapeBatchStream: 'POST /scrape/batch/stream',
+      scrapeList: 'POST /scrape/list',
+      detectSelectors: 'POST /detect-selectors',
+      proxies: 'GET /proxies',
+      profiles: 'GET /profiles',
+      metrics: 'GET /metrics',
+      artifact: 'GET /artifacts/:id',
+      createJob: 'POST /jobs',
+      job: 'GET /jobs/:id',
+      cancelJob: 'DELETE /jobs/:id',
+      discover: 'POST /discover',
+      discovery: 'GET /discover/:id',
+      cancelDiscovery: 'DELETE /discover/:id',
+      fixtures: 'GET /fixtures',
+      replayFixtures: 'POST /fixtures/replay',
     },
   });
 });
@@ -111,7 +166,7 @@ app.post(
       // Validate request body
       const validatedData = scrapeRequestSchema.parse(req.body);
 
-      const scraper = await getScraper();
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
       const result = await scraper.scrapeWithRetry(
         validatedData.url,
         validatedData.priceSelector,
@@ -120,19 +175,26 @@ app.post(
         {
           timeout: validatedData.timeout || 30000,
           waitForSelector: validatedData.waitForSelector,
+          strategies: validatedData.strategies,
+          currency: validatedData.currency,
+          locale: validatedData.locale,
+          originalPriceSelector: validatedData.originalPriceSelector,
+          availabilitySelector: validatedData.availabilitySelector,
+          availabilityKeywords: validatedData.availabilityKeywords,
+          network: validatedData.network,
+          fetchMode: validatedData.fetchMode,
+          proxyPool: validatedData.proxyPool,
+          profile: validatedData.profile,
+          ignoreRobots: validatedData.ignoreRobots,
+          actions: validatedData.actions,
+          evidence: validatedData.evidence,
+          recordFixture: validatedData.recordFixture,
         }
       );
 
       const response: ScrapeResponse = {
         success: true,
-        data: {
-          price: result.price,
-          currency: result.currency,
-          productName: result.productName,
-          imageUrl: result.imageUrl,
-          scrapedAt: new Date().toISOString(),
-          rawPrice: result.rawPrice,
-        },
+        data: toScrapeResult(result),
       };
 
       res.json(response);
@@ -148,6 +210,9 @@ app.post(
         res.status(500).json({
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error',
+          code: getErrorCode(error),
+          blocked: error instanceof ScrapeError ? error.block : undefined,
+          evidence: error instanceof ScrapeError ? error.evidence : undefined,
         } as ScrapeResponse);
       }
     }
@@ -163,35 +228,38 @@ app.post(
       // Validate request body
       const validatedData = scrapeBatchRequestSchema.parse(req.body);
 
-      const scraper = await getScraper();
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
       const results = await scraper.scrapeBatch(
         validatedData.competitors.map(c => ({
           url: c.url,
           priceSelector: c.priceSelector,
+          strategies: c.strategies,
+          originalPriceSelector: c.originalPriceSelector,
+          availabilitySelector: c.availabilitySelector,
+          availabilityKeywords: c.availabilityKeywords,
+          network: c.network,
+          fetchMode: c.fetchMode,
+          proxyPool: c.proxyPool,
+          profile: c.profile,
+          ignoreRobots: c.ignoreRobots,
+          actions: c.actions,
+          evidence: c.evidence,
+          recordFixture: c.recordFixture,
           nameSelector: c.nameSelector,
           imageSelector: c.imageSelector,
+          timeout: c.timeout,
+          waitForSelector: c.waitForSelector,
+          currency: c.currency,
+          locale: c.locale,
         })),
         {
-          timeout: validatedData.competitors[0]?.timeout || 30000,
-          waitForSelector: validatedData.competitors[0]?.waitForSelector,
+          timeout: 30000,
         }
       );
 
       const response: ScrapeBatchResponse = {
         success: true,
-        results: results.map((result, index) => ({
-          id: validatedData.competitors[index].id,
-          success: result.success,
-          data: result.data ? {
-            price: result.data.price,
-            currency: result.data.currency,
-            productName: result.data.productName,
-            imageUrl: result.data.imageUrl,
-            scrapedAt: new Date().toISOString(),
-            rawPrice: result.data.rawPrice,
-          } : undefined,
-          error: result.error,
-        })),
+        results: results.map((result, index) => toBatchResult(validatedData.competitors[index].id, result)),
       };
 
       res.json(response);
@@ -213,8 +281,507 @@ app.post(
   }
 );
 
+// Scrape multiple competitors, streaming each result as it finishes endpoint.
+// Server-Sent Events when the client accepts text/event-stream, else NDJSON.
+app.post(
+  '/scrape/batch/stream',
+  validateApiKey,
+  async (req: Request, res: Response) => {
+    let validatedData: z.infer<typeof scrapeBatchRequestSchema>;
+    try {
+      // Validate request body
+      validatedData = scrapeBatchRequestSchema.parse(req.body);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: error instanceof z.ZodError ? error.errors : undefined,
+      });
+      return;
+    }
+
+    const sse = req.accepts(['application/x-ndjson', 'text/event-stream']) === 'text/event-stream';
+    res.status(200);
+    res.setHeader('Content-Type', sse ? 'text/event-stream' : 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    // Keep reverse proxies from holding results back
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // A client that disconnects stops the scrapes that have not started yet
+    const disconnected = new AbortController();
+    res.on('close', () => disconnected.abort());
+
+    const send = (event: ScrapeBatchStreamEvent) => {
+      if (res.writableEnded || res.destroyed) return;
+      res.write(sse ? `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n` : `${JSON.stringify(event)}\n`);
+    };
+
+    const startedAt = Date.now();
+    let succeeded = 0;
+    let failed = 0;
+    const scraper = await getScraper(SCRAPER_DEFAULTS);
+    await scraper.streamBatch(
+      validatedData.competitors,
+      { timeout: 30000, signal: disconnected.signal },
+      (index, itemResult) => {
+        const result = toBatchResult(validatedData.competitors[index].id, itemResult);
+        if (result.success) {
+          succeeded++;
+        } else {
+          failed++;
+        }
+        send({ type: 'result', index, result });
+      }
+    );
+    if (disconnected.signal.aborted) return;
+
+    send({
+      type: 'summary',
+      total: validatedData.competitors.length,
+      succeeded,
+      failed,
+      duration: Date.now() - startedAt,
+    });
+    res.end();
+  }
+);
+
+// Queue a batch as a background job endpoint
+app.post(
+  '/jobs',
+  validateApiKey,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request body
+      const validatedData = scrapeJobRequestSchema.parse(req.body);
+
+      const job = createJob(validatedData);
+      await jobQueue.add(job, validatedData.competitors);
+
+      res.status(202).json({ success: true, job } as ScrapeJobResponse);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: error.errors,
+        });
+      } else {
+        console.error('Job creation error:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+);
+
+// Job progress and per-item results endpoint
+app.get('/jobs/:id', validateApiKey, async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueue.get(req.params.id);
+    if (!job) {
+      res.status(404).json({ success: false, error: 'Job not found' });
+      return;
+    }
+
+    res.json({ success: true, job } as ScrapeJobResponse);
+  } catch (error) {
+    console.error('Job lookup error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Cancel a job endpoint; items already being scraped still finish
+app.delete('/jobs/:id', validateApiKey, async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueue.get(req.params.id);
+    if (!job) {
+      res.status(404).json({ success: false, error: 'Job not found' });
+      return;
+    }
+
+    if (isFinished(job)) {
+      res.status(409).json({ success: false, error: `Job is already ${job.status}` });
+      return;
+    }
+
+    await jobQueue.requestCancel(job.id);
+    if (job.status === 'queued') {
+      // Never started, so nothing is left to wind down
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+      await jobQueue.save(job);
+    }
+
+    res.status(202).json({ success: true, job } as ScrapeJobResponse);
+  } catch (error) {
+    console.error('Job cancellation error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Catalog discovery endpoint: find product URLs from sitemaps or a category crawl in the background
+app.post(
+  '/discover',
+  validateApiKey,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request body
+      const validatedData = discoveryRequestSchema.parse(req.body);
+
+      const job = createDiscoveryJob(validatedData);
+      await discoveryQueue.add(job, [validatedData]);
+
+      res.status(202).json({ success: true, job } as DiscoveryJobResponse);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: error.errors,
+        });
+      } else {
+        console.error('Discovery creation error:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+);
+
+// Discovery progress and product URLs endpoint
+app.get('/discover/:id', validateApiKey, async (req: Request, res: Response) => {
+  try {
+    const job = await discoveryQueue.get(req.params.id);
+    if (!job) {
+      res.status(404).json({ success: false, error: 'Discovery not found' });
+      return;
+    }
+
+    res.json({ success: true, job } as DiscoveryJobResponse);
+  } catch (error) {
+    console.error('Discovery lookup error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Cancel a discovery endpoint; the products found so far are kept
+app.delete('/discover/:id', validateApiKey, async (req: Request, res: Response) => {
+  try {
+    const job = await discoveryQueue.get(req.params.id);
+    if (!job) {
+      res.status(404).json({ success: false, error: 'Discovery not found' });
+      return;
+    }
+
+    if (isFinished(job)) {
+      res.status(409).json({ success: false, error: `Discovery is already ${job.status}` });
+      return;
+    }
+
+    await discoveryQueue.requestCancel(job.id);
+    if (job.status === 'queued') {
+      // Never started, so nothing is left to wind down
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+      await discoveryQueue.save(job);
+    }
+
+    res.status(202).json({ success: true, job } as DiscoveryJobResponse);
+  } catch (error) {
+    console.error('Discovery cancellation error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Scrape every product on a category or search page endpoint
+app.post(
+  '/scrape/list',
+  validateApiKey,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request body
+      const validatedData = scrapeListRequestSchema.parse(req.body);
+
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
+      const result = await scraper.scrapeList(
+        validatedData.url,
+        validatedData.itemSelector,
+        validatedData.fields,
+        validatedData.pagination,
+        {
+          timeout: validatedData.timeout || 30000,
+          waitForSelector: validatedData.waitForSelector,
+          currency: validatedData.currency,
+          locale: validatedData.locale,
+          proxyPool: validatedData.proxyPool,
+          profile: validatedData.profile,
+          ignoreRobots: validatedData.ignoreRobots,
+        }
+      );
+
+      const response: ScrapeListResponse = {
+        success: true,
+        data: {
+          url: validatedData.url,
+          ...result,
+          profile: validatedData.profile,
+          scrapedAt: new Date().toISOString(),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: error.errors,
+        });
+      } else {
+        console.error('List scrape error:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: getErrorCode(error),
+          blocked: error instanceof ScrapeError ? error.block : undefined,
+        });
+      }
+    }
+  }
+);
+
+// Suggest selectors for a product page endpoint
+app.post(
+  '/detect-selectors',
+  validateApiKey,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request body
+      const validatedData = detectSelectorsRequestSchema.parse(req.body);
+
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
+      const candidates = await scraper.detectSelectors(
+        validatedData.url,
+        {
+          timeout: validatedData.timeout || 30000,
+          waitForSelector: validatedData.waitForSelector,
+        },
+        validatedData.limit
+      );
+
+      const response: DetectSelectorsResponse = {
+        success: true,
+        data: {
+          url: validatedData.url,
+          candidates,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: error.errors,
+        });
+      } else {
+        console.error('Selector detection error:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+);
+
+// Recorded fixtures endpoint
+app.get(
+  '/fixtures',
+  validateApiKey,
+  async (_req: Request, res: Response) => {
+    try {
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
+      res.json({
+        success: true,
+        fixtures: await scraper.listFixtures(),
+      });
+    } catch (error) {
+      console.error('Fixture list error:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+// Replay recorded fixtures offline and report fields that changed endpoint
+app.post(
+  '/fixtures/replay',
+  validateApiKey,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request body
+      const validatedData = fixtureReplayRequestSchema.parse(req.body ?? {});
+
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
+      const stored = await scraper.fixtureNames();
+      const names = validatedData.names ?? stored;
+
+      const missing = names.filter(name => !stored.includes(name));
+      if (missing.length > 0) {
+        res.status(404).json({
+          success: false,
+          error: `Fixture not found: ${missing.join(', ')}`,
+        });
+        return;
+      }
+
+      const replays = await scraper.replayFixtures(names);
+      const results = replays.filter((replay): replay is FixtureReplay => replay !== null);
+      const passed = results.filter(result => result.passed).length;
+
+      res.json({
+        success: passed === results.length,
+        total: results.length,
+        passed,
+        failed: results.length - passed,
+        results,
+      } as FixtureReplayResponse);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: error.errors,
+        });
+      } else {
+        console.error('Fixture replay error:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+);
+
+// Prometheus metrics endpoint
+app.get(
+  '/metrics',
+  validateApiKey,
+  async (_req: Request, res: Response) => {
+    try {
+      const metrics = await registry.metrics();
+      res.set('Content-Type', registry.contentType);
+      res.send(metrics);
+    } catch (error) {
+      console.error('Metrics error:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+// Proxy pool health endpoint
+app.get(
+  '/proxies',
+  validateApiKey,
+  async (_req: Request, res: Response) => {
+    try {
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
+      res.json({
+        success: true,
+        pools: scraper.getProxyStats(),
+      });
+    } catch (error) {
+      console.error('Proxy stats error:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+// Emulation profiles endpoint
+app.get(
+  '/profiles',
+  validateApiKey,
+  async (_req: Request, res: Response) => {
+    try {
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
+      res.json({
+        success: true,
+        profiles: scraper.getProfiles(),
+      });
+    } catch (error) {
+      console.error('Profiles error:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+// Evidence file endpoint
+app.get(
+  '/artifacts/:id',
+  validateApiKey,
+  async (req: Request, res: Response) => {
+    try {
+      const scraper = await getScraper(SCRAPER_DEFAULTS);
+      const artifact = await scraper.getArtifact(req.params.id);
+
+      if (!artifact) {
+        res.status(404).json({
+          success: false,
+          error: 'Artifact not found',
+        });
+        return;
+      }
+
+      res.set('Content-Type', artifact.contentType);
+      // Stored pages are untrusted HTML; never let them run scripts
+      res.set('Content-Security-Policy', 'sandbox');
+      // Content-addressed, so a given id never changes
+      res.set('Cache-Control', 'private, max-age=31536000, immutable');
+      res.send(artifact.data);
+    } catch (error) {
+      console.error('Artifact error:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
 // Error handling middleware
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
   console.error('Unhandled error:', err);
   res.status(500).json({
     success: false,
@@ -228,11 +795,25 @@ app.listen(PORT, () => {
   console.log(`Health check: http://localhost:${PORT}/health`);
   console.log(`Scrape endpoint: http://localhost:${PORT}/scrape`);
   console.log(`Batch scrape endpoint: http://localhost:${PORT}/scrape/batch`);
+  console.log(`List scrape endpoint: http://localhost:${PORT}/scrape/list`);
+  console.log(`Selector detection endpoint: http://localhost:${PORT}/detect-selectors`);
+  console.log(`Job endpoint: http://localhost:${PORT}/jobs`);
+  console.log(`Discovery endpoint: http://localhost:${PORT}/discover`);
+  console.log(`Fixture replay endpoint: http://localhost:${PORT}/fixtures/replay`);
+  console.log(`Proxy pools: ${Object.keys(PROXY_POOLS).join(', ') || 'none'}`);
+  console.log(`Job queue: ${REDIS_HOST ? `redis://${REDIS_HOST}:${REDIS_PORT}` : 'in memory'}`);
+
+  jobRunner.start().catch(error => console.error('Could not start the job runner:', error));
+  discoveryRunner.start().catch(error => console.error('Could not start the discovery runner:', error));
 });
 
 // Graceful shutdown
 const shutdown = async () => {
   console.log('Shutting down gracefully...');
+  await jobRunner.stop();
+  await discoveryRunner.stop();
+  await jobQueue.close();
+  await discoveryQueue.close();
   await closeScraper();
   process.exit(0);
 };
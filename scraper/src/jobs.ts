@@ -0,0 +1,398 @@
+/**
+ * Asynchronous scrape jobs: a batch is answered with a job id straight away and
+ * worked through in the background, so callers poll for progress or get a
+ * callback instead of holding a connection open while dozens of pages load
+ *
+ * Jobs are kept in Redis when it is configured, so queued and half-finished
+ * jobs survive a restart. The in-memory queue is for local runs and tests.
+ * The queues are generic over the job record, so other background work
+ * (catalog discovery) shares them under its own Redis prefix.
+ */
+
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { checkCallbackUrl } from './callbacks';
+import { CALLBACK_ALLOWED_HOSTS } from './config';
+import { ScrapeBatchResult, ScrapeJob, ScrapeJobItem, ScrapeJobRequest } from './types';
+
+export const DEFAULT_JOB_CONCURRENCY = 5;
+
+/**
+ * How long finished jobs can still be fetched
+ */
+export const JOB_TTL = 24 * 60 * 60 * 1000;
+
+const POLL_INTERVAL = 1000;
+const CALLBACK_TIMEOUT = 10000;
+
+/**
+ * What a queue needs to know about a job record
+ */
+export interface QueuedJob {
+  id: string;
+  status: string;
+  callbackUrl?: string;
+  finishedAt?: string;
+}
+
+export interface JobQueue<J extends QueuedJob = ScrapeJob, I = ScrapeJobItem> {
+  // Store a new job and queue it behind the others
+  add(job: J, items: I[]): Promise<void>;
+  // Take the next queued job id, or null when nothing is waiting
+  claim(): Promise<string | null>;
+  // Number of jobs waiting to start
+  size(): Promise<number>;
+  get(id: string): Promise<J | null>;
+  getItems(id: string): Promise<I[]>;
+  // Persist progress; finished jobs leave the queue and expire after JOB_TTL
+  save(job: J): Promise<void>;
+  requestCancel(id: string): Promise<void>;
+  isCancelRequested(id: string): Promise<boolean>;
+  // Queue again the jobs that were running when the process stopped
+  recover(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Whether a job will not change any more
+ */
+export function isFinished(job: QueuedJob): boolean {
+  return job.status === 'completed' || job.status === 'cancelled' || job.status === 'failed';
+}
+
+/**
+ * Build the record for a newly submitted job
+ */
+export function createJob(request: ScrapeJobRequest): ScrapeJob {
+  return {
+    id: randomUUID(),
+    status: 'queued',
+    total: request.competitors.length,
+    completed: 0,
+    succeeded: 0,
+    failed: 0,
+    results: request.competitors.map(() => null),
+    callbackUrl: request.callbackUrl,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+interface MemoryEntry<J, I> {
+  job: J;
+  items: I[];
+  cancel: boolean;
+}
+
+export class MemoryJobQueue<J extends QueuedJob = ScrapeJob, I = ScrapeJobItem> implements JobQueue<J, I> {
+  private readonly entries = new Map<string, MemoryEntry<J, I>>();
+  private readonly queue: string[] = [];
+  private readonly processing = new Set<string>();
+
+  async add(job: J, items: I[]): Promise<void> {
+    this.prune();
+    this.entries.set(job.id, { job: structuredClone(job), items, cancel: false });
+    this.queue.push(job.id);
+  }
+
+  async claim(): Promise<string | null> {
+    const id = this.queue.shift();
+    if (!id) return null;
+    this.processing.add(id);
+    return id;
+  }
+
+  async size(): Promise<number> {
+    return this.queue.length;
+  }
+
+  async get(id: string): Promise<J | null> {
+    const entry = this.entries.get(id);
+    return entry ? structuredClone(entry.job) : null;
+  }
+
+  async getItems(id: string): Promise<I[]> {
+    return this.entries.get(id)?.items || [];
+  }
+
+  async save(job: J): Promise<void> {
+    const entry = this.entries.get(job.id);
+    if (!entry) return;
+
+    entry.job = structuredClone(job);
+    if (isFinished(job)) {
+      this.processing.delete(job.id);
+      const index = this.queue.indexOf(job.id);
+      if (index !== -1) this.queue.splice(index, 1);
+    }
+  }
+
+  async requestCancel(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (entry) entry.cancel = true;
+  }
+
+  async isCancelRequested(id: string): Promise<boolean> {
+    return this.entries.get(id)?.cancel || false;
+  }
+
+  async recover(): Promise<void> {
+    this.queue.unshift(...this.processing);
+    this.processing.clear();
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  // Forget finished jobs past their TTL
+  private prune(): void {
+    const cutoff = Date.now() - JOB_TTL;
+    for (const [id, { job }] of this.entries) {
+      if (isFinished(job) && job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
+
+export class RedisJobQueue<J extends QueuedJob = ScrapeJob, I = ScrapeJobItem> implements JobQueue<J, I> {
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix: string = 'scraper:jobs:'
+  ) {}
+
+  async add(job: J, items: I[]): Promise<void> {
+    await this.redis
+      .multi()
+      .set(this.jobKey(job.id), JSON.stringify(job))
+      .set(this.itemsKey(job.id), JSON.stringify(items))
+      .rpush(this.queueKey(), job.id)
+      .exec();
+  }
+
+  async claim(): Promise<string | null> {
+    // Atomic, so two scraper instances never take the same job
+    return this.redis.lmove(this.queueKey(), this.processingKey(), 'LEFT', 'RIGHT');
+  }
+
+  async size(): Promise<number> {
+    return this.redis.llen(this.queueKey());
+  }
+
+  async get(id: string): Promise<J | null> {
+    const value = await this.redis.get(this.jobKey(id));
+    return value ? (JSON.parse(value) as J) : null;
+  }
+
+  async getItems(id: string): Promise<I[]> {
+    const value = await this.redis.get(this.itemsKey(id));
+    return value ? (JSON.parse(value) as I[]) : [];
+  }
+
+  async save(job: J): Promise<void> {
+    if (!isFinished(job)) {
+      await this.redis.set(this.jobKey(job.id), JSON.stringify(job));
+      return;
+    }
+
+    await this.redis
+      .multi()
+      .set(this.jobKey(job.id), JSON.stringify(job), 'PX', JOB_TTL)
+      .del(this.itemsKey(job.id), this.cancelKey(job.id))
+      .lrem(this.queueKey(), 0, job.id)
+      .lrem(this.processingKey(), 0, job.id)
+      .exec();
+  }
+
+  async requestCancel(id: string): Promise<void> {
+    await this.redis.set(this.cancelKey(id), '1', 'PX', JOB_TTL);
+  }
+
+  async isCancelRequested(id: string): Promise<boolean> {
+    return (await this.redis.exists(this.cancelKey(id))) === 1;
+  }
+
+  async recover(): Promise<void> {
+    // Back to the front of the queue, in the order they were claimed
+    while (await this.redis.lmove(this.processingKey(), this.queueKey(), 'RIGHT', 'LEFT')) {
+      // Keep moving until nothing is left
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private jobKey(id: string): string {
+    return `${this.prefix}job:${id}`;
+  }
+
+  private itemsKey(id: string): string {
+    return `${this.prefix}job:${id}:items`;
+  }
+
+  private cancelKey(id: string): string {
+    return `${this.prefix}job:${id}:cancel`;
+  }
+
+  private queueKey(): string {
+    return `${this.prefix}queue`;
+  }
+
+  private processingKey(): string {
+    return `${this.prefix}processing`;
+  }
+}
+
+/**
+ * Polls a queue and works through its jobs one at a time; subclasses say how
+ * a claimed job is run
+ */
+export abstract class QueueWorker<J extends QueuedJob, I> {
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<void> | null = null;
+  protected stopped = true;
+
+  constructor(protected readonly queue: JobQueue<J, I>) {}
+
+  /**
+   * Pick up jobs left over from the last run, then start polling for new ones
+   */
+  async start(): Promise<void> {
+    if (!this.stopped) return;
+    this.stopped = false;
+    await this.queue.recover();
+    this.poll();
+  }
+
+  /**
+   * Stop taking jobs and wait for the current one to finish its items
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.current;
+  }
+
+  private poll(): void {
+    if (this.stopped) return;
+
+    this.current = this.queue
+      .claim()
+      .then(async id => {
+        if (id) await this.runJob(id);
+        return id;
+      })
+      .catch(error => {
+        console.error('Job queue error:', error);
+        return null;
+      })
+      .then(id => {
+        this.current = null;
+        if (this.stopped) return;
+        // Go straight on while there is work, otherwise check back shortly
+        if (id) {
+          this.poll();
+        } else {
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.poll();
+          }, POLL_INTERVAL);
+        }
+      });
+  }
+
+  protected abstract runJob(id: string): Promise<void>;
+}
+
+/**
+ * Works through queued scrape jobs, running up to `concurrency` of a job's
+ * items at once and saving progress after every item
+ */
+export class JobRunner extends QueueWorker<ScrapeJob, ScrapeJobItem> {
+  constructor(
+    queue: JobQueue,
+    private readonly runItem: (item: ScrapeJobItem) => Promise<ScrapeBatchResult>,
+    private readonly concurrency: number = DEFAULT_JOB_CONCURRENCY
+  ) {
+    super(queue);
+  }
+
+  protected async runJob(id: string): Promise<void> {
+    const job = await this.queue.get(id);
+    if (!job || isFinished(job)) return;
+
+    const items = await this.queue.getItems(id);
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    await this.queue.save(job);
+
+    let next = 0;
+    let cancelled = false;
+    const work = async () => {
+      while (next < items.length && !cancelled && !this.stopped) {
+        const index = next++;
+        // Finished before a restart
+        if (job.results[index]) continue;
+
+        if (await this.queue.isCancelRequested(id)) {
+          cancelled = true;
+          return;
+        }
+
+        const result = await this.runItem(items[index]).catch(error => ({
+          id: items[index].id,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        }));
+        job.results[index] = result;
+        job.completed++;
+        if (result.success) {
+          job.succeeded++;
+        } else {
+          job.failed++;
+        }
+        await this.queue.save(job);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, items.length) }, work));
+
+    // Shutting down mid-job: leave it claimed so the next start picks it up again
+    if (this.stopped && !cancelled && job.completed < job.total) return;
+
+    job.status = cancelled ? 'cancelled' : 'completed';
+    job.finishedAt = new Date().toISOString();
+    await this.queue.save(job);
+
+    await notifyCallback(job);
+  }
+}
+
+/**
+ * POST a finished job to its callback URL, if it has one. Best effort: the job can still be polled.
+ */
+export async function notifyCallback(job: QueuedJob): Promise<void> {
+  const { callbackUrl } = job;
+  if (!callbackUrl) return;
+
+  try {
+    // Checked again on sending, as the host may now resolve somewhere else
+    await checkCallbackUrl(callbackUrl, CALLBACK_ALLOWED_HOSTS);
+    const response = await fetch(callbackUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, job }),
+      // A redirect could lead to a private address
+      redirect: 'manual',
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT),
+    });
+    if (!response.ok) {
+      console.warn(`Job ${job.id} callback to ${callbackUrl} answered HTTP ${response.status}`);
+    }
+  } catch (error) {
+    console.warn(`Job ${job.id} callback to ${callbackUrl} failed:`, error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Minimal JSONPath evaluator for reading values out of API payloads
+ *
+ * Supports the root `$`, child access (`.name`, `['name']`), array indexes
+ * (`[0]`, `[-1]`), wildcards (`.*`, `[*]`) and recursive descent (`..name`).
+ */
+
+export type JsonPathSegment =
+  | { kind: 'child'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'recurse' }; // the value itself and every value nested in it
+
+/**
+ * Split a JSONPath expression into segments, throwing on syntax errors
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const source = path.trim();
+  if (!source.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let position = 1;
+
+  const readName = (): string => {
+    const match = /^[A-Za-z_$@][\w$@-]*/.exec(source.slice(position));
+    if (!match) throw new Error(`Expected a property name at position ${position} in ${path}`);
+    position += match[0].length;
+    return match[0];
+  };
+
+  while (position < source.length) {
+    if (source.startsWith('..', position)) {
+      position += 2;
+      segments.push({ kind: 'recurse' });
+      if (source[position] === '*') {
+        position++;
+        segments.push({ kind: 'wildcard' });
+      } else if (source[position] !== '[') {
+        segments.push({ kind: 'child', name: readName() });
+      }
+    } else if (source[position] === '.') {
+      position++;
+      if (source[position] === '*') {
+        position++;
+        segments.push({ kind: 'wildcard' });
+      } else {
+        segments.push({ kind: 'child', name: readName() });
+      }
+    } else if (source[position] === '[') {
+      const end = source.indexOf(']', position);
+      if (end === -1) throw new Error(`Unclosed [ at position ${position} in ${path}`);
+
+      const inner = source.slice(position + 1, end).trim();
+      position = end + 1;
+
+      if (inner === '*') {
+        segments.push({ kind: 'wildcard' });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: 'index', index: parseInt(inner, 10) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ kind: 'child', name: inner.slice(1, -1) });
+      } else {
+        throw new Error(`Unsupported bracket expression [${inner}] in ${path}`);
+      }
+    } else {
+      throw new Error(`Unexpected character "${source[position]}" at position ${position} in ${path}`);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Every value a JSONPath expression matches, in document order
+ */
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      next.push(...applySegment(value, segment));
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * First non-null value a JSONPath expression matches
+ */
+export function firstJsonPathValue(data: unknown, path: string): unknown {
+  return queryJsonPath(data, path).find(value => value !== null && value !== undefined);
+}
+
+function applySegment(value: unknown, segment: JsonPathSegment): unknown[] {
+  switch (segment.kind) {
+    case 'child':
+      return isObject(value) && segment.name in value ? [value[segment.name]] : [];
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = segment.index < 0 ? value.length + segment.index : segment.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'wildcard':
+      return children(value);
+    case 'recurse': {
+      const matches: unknown[] = [];
+      const visit = (node: unknown) => {
+        matches.push(node);
+        children(node).forEach(visit);
+      };
+      visit(value);
+      return matches;
+    }
+  }
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return Object.values(value);
+  return [];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
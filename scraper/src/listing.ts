@@ -0,0 +1,127 @@
+/**
+ * List-page extraction: many products from one category or search page
+ */
+
+import { Page } from 'playwright';
+import { ListFieldSelectors, ListProduct } from './types';
+import { parsePrice, ParsePriceOptions } from './utils';
+
+/**
+ * Field values read from one item container, before parsing
+ */
+export interface RawListItem {
+  name: string | null;
+  price: string | null;
+  url: string | null;
+  image: string | null;
+}
+
+/**
+ * Read every item container on the current page
+ */
+export async function collectListItems(
+  page: Page,
+  itemSelector: string,
+  fields: ListFieldSelectors
+): Promise<RawListItem[]> {
+  return page.$$eval(
+    itemSelector,
+    (items, fields) =>
+      items.map(item => {
+        // Text without struck-through list prices, which often sit inside price blocks
+        const readText = (selector?: string): string | null => {
+          if (!selector) return null;
+          const element = item.querySelector(selector);
+          if (!element) return null;
+          const clone = element.cloneNode(true) as Element;
+          for (const node of Array.from(clone.querySelectorAll('del, s, strike'))) {
+            node.remove();
+          }
+          const text = (clone.textContent || element.textContent || '').replace(/\s+/g, ' ').trim();
+          return text || null;
+        };
+
+        const link = fields.link
+          ? item.querySelector(fields.link)
+          : item.matches('a[href]')
+            ? item
+            : item.querySelector('a[href]');
+        const image = item.querySelector(fields.image || 'img');
+
+        return {
+          name: readText(fields.name) || (link?.textContent || '').replace(/\s+/g, ' ').trim() || null,
+          price: readText(fields.price),
+          // .href is already absolute; a link selector may match something other than an <a>
+          url: link instanceof HTMLAnchorElement ? link.href || null : link?.getAttribute('href') || null,
+          image:
+            (image instanceof HTMLImageElement && image.currentSrc) ||
+            image?.getAttribute('src') ||
+            image?.getAttribute('data-src') ||
+            null,
+        };
+      }),
+    fields
+  );
+}
+
+/**
+ * Turn a raw item into a product, parsing its price and resolving URLs
+ */
+export function toListProduct(
+  item: RawListItem,
+  pageUrl: string,
+  pageNumber: number,
+  hints: ParsePriceOptions
+): ListProduct | null {
+  const url = resolveUrl(item.url, pageUrl);
+  const name = item.name || undefined;
+  const matchKey = productMatchKey(url, name);
+  if (!matchKey) return null; // Nothing to identify the product by across runs
+
+  const product: ListProduct = {
+    matchKey,
+    name,
+    url,
+    imageUrl: resolveUrl(item.image, pageUrl),
+    page: pageNumber,
+  };
+
+  if (!item.price) {
+    return { ...product, error: 'Price element not found in item' };
+  }
+
+  try {
+    const { price, currency } = parsePrice(item.price, hints);
+    return { ...product, price, currency, rawPrice: item.price };
+  } catch (error) {
+    return { ...product, rawPrice: item.price, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Stable identity for a listed product: its URL without query string or
+ * fragment, else its whitespace- and case-normalized name
+ */
+export function productMatchKey(url?: string, name?: string): string | null {
+  if (url) {
+    try {
+      const parsed = new URL(url);
+      const path = parsed.pathname.replace(/\/+$/, '') || '/';
+      return `url:${parsed.hostname.toLowerCase().replace(/^www\./, '')}${path}`;
+    } catch {
+      // Fall through to the name
+    }
+  }
+
+  const normalizedName = name?.toLowerCase().replace(/\s+/g, ' ').trim();
+  return normalizedName ? `name:${normalizedName}` : null;
+}
+
+function resolveUrl(value: string | null, base: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return undefined;
+  }
+}
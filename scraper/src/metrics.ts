@@ -0,0 +1,128 @@
+/**
+ * Prometheus metrics for the scraper service
+ *
+ * Counters are fed as scrapes, retries and HTTP requests happen; pool, queue
+ * and process figures are read when Prometheus collects them.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { getErrorCode } from './errors';
+import { FetchMode } from './types';
+
+export const registry = new Registry();
+
+// Process memory, CPU, event loop lag and the like
+collectDefaultMetrics({ register: registry, prefix: 'scraper_' });
+
+const scrapesTotal = new Counter({
+  name: 'scraper_scrapes_total',
+  help: 'Scrape attempts by outcome, error code and fetch mode',
+  labelNames: ['outcome', 'code', 'fetch_mode'] as const,
+  registers: [registry],
+});
+
+const scrapeDuration = new Histogram({
+  name: 'scraper_scrape_duration_seconds',
+  help: 'Scrape attempt latency by outcome and error code, from when the attempt got its turn at the host',
+  labelNames: ['outcome', 'code'] as const,
+  buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+  registers: [registry],
+});
+
+const scrapeWait = new Histogram({
+  name: 'scraper_scrape_wait_seconds',
+  help: 'Time scrape attempts waited for crawl delays, host concurrency and a browser page',
+  buckets: [0.1, 0.5, 1, 2, 5, 10, 30, 60, 120, 300],
+  registers: [registry],
+});
+
+const domainScrapesTotal = new Counter({
+  name: 'scraper_domain_scrapes_total',
+  help: 'Scrape attempts per domain by outcome; divide success by all for the success rate',
+  labelNames: ['domain', 'outcome'] as const,
+  registers: [registry],
+});
+
+const retriesTotal = new Counter({
+  name: 'scraper_retries_total',
+  help: 'Scrapes retried after a failure, by the error code that caused it',
+  labelNames: ['code'] as const,
+  registers: [registry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: 'scraper_http_request_duration_seconds',
+  help: 'API request latency by method, route and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.05, 0.1, 0.5, 1, 5, 10, 30, 60, 120],
+  registers: [registry],
+});
+
+/**
+ * Read a gauge's value when metrics are collected, e.g. pages in use
+ */
+export function registerGauge(name: string, help: string, read: () => number | Promise<number>): void {
+  new Gauge({
+    name,
+    help,
+    registers: [registry],
+    async collect() {
+      this.set(await read());
+    },
+  });
+}
+
+/**
+ * When a scrape attempt was asked for and when it got its turn, so waiting is
+ * not counted as scrape latency
+ */
+export interface ScrapeTiming {
+  requestedAt: number;
+  // Set the first time the attempt gets past the host's pacing (and, in the browser, leases a page)
+  startedAt?: number;
+}
+
+/**
+ * Count one scrape attempt, the time it waited and its latency. Attempts that
+ * failed before their turn, e.g. on a host backing off, only count as waiting.
+ */
+export function recordScrape(url: string, timing: ScrapeTiming, fetchMode?: FetchMode, error?: unknown): void {
+  const outcome = error === undefined ? 'success' : 'failure';
+  const code = error === undefined ? 'none' : getErrorCode(error);
+  const now = Date.now();
+
+  scrapesTotal.inc({ outcome, code, fetch_mode: fetchMode || 'none' });
+  scrapeWait.observe(((timing.startedAt ?? now) - timing.requestedAt) / 1000);
+  if (timing.startedAt !== undefined) {
+    scrapeDuration.observe({ outcome, code }, (now - timing.startedAt) / 1000);
+  }
+  domainScrapesTotal.inc({ domain: domainOf(url), outcome });
+}
+
+/**
+ * Count a scrape that failed and is about to be tried again
+ */
+export function recordRetry(error: unknown): void {
+  retriesTotal.inc({ code: getErrorCode(error) });
+}
+
+/**
+ * Time every API request, labelled with its route pattern rather than the raw path
+ */
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const end = httpRequestDuration.startTimer();
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    end({ method: req.method, route, status: String(res.statusCode) });
+  });
+  next();
+}
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return 'invalid';
+  }
+}
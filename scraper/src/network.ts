@@ -0,0 +1,146 @@
+/**
+ * Product data from the JSON API responses a page fetches while it loads
+ *
+ * Responses are captured as they arrive and parsed here in Node, so SPA
+ * storefronts can be read without waiting for the DOM to render.
+ */
+
+import { Page, Response } from 'playwright';
+import { Availability, AvailabilityKeywords, NetworkSource } from './types';
+import { classifyAvailabilityText, normalizeSchemaAvailability } from './availability';
+import { firstJsonPathValue } from './jsonpath';
+import { toStructuredPrice } from './structured';
+import { ParsePriceOptions } from './utils';
+
+/**
+ * How long to wait for a matching response once the DOM has loaded
+ */
+export const DEFAULT_NETWORK_WAIT = 10000;
+
+export interface CapturedResponse {
+  url: string;
+  body: unknown;
+}
+
+export interface NetworkData {
+  price: number;
+  currency?: string;
+  rawPrice: string;
+  productName?: string;
+  availability?: Availability;
+  rawAvailability?: string;
+  responseUrl: string;
+}
+
+/**
+ * Collects the JSON bodies of responses whose URL matches a pattern.
+ * Attach it before navigating; the listener goes away when the page is closed.
+ */
+export class ResponseCapture {
+  private readonly responses: CapturedResponse[] = [];
+  private readonly waiters = new Set<() => void>();
+
+  constructor(page: Page, private readonly urlPattern: string) {
+    page.on('response', response => {
+      void this.record(response);
+    });
+  }
+
+  /**
+   * Responses captured so far, waiting up to `timeout` ms for the first one
+   */
+  async waitForResponses(timeout: number = DEFAULT_NETWORK_WAIT): Promise<CapturedResponse[]> {
+    if (this.responses.length === 0) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          this.waiters.delete(done);
+          resolve();
+        };
+        const timer = setTimeout(done, timeout);
+        this.waiters.add(done);
+      });
+    }
+
+    return [...this.responses];
+  }
+
+  private async record(response: Response): Promise<void> {
+    if (!matchesUrlPattern(response.url(), this.urlPattern)) return;
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      return; // Not JSON, or the body is gone after a redirect
+    }
+
+    this.responses.push({ url: response.url(), body });
+    for (const waiter of [...this.waiters]) {
+      waiter();
+    }
+  }
+}
+
+/**
+ * Match a URL against a plain substring or a /regex/flags pattern
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  return regex ? new RegExp(regex[1], regex[2]).test(url) : url.includes(pattern);
+}
+
+/**
+ * Read price, currency, name and stock from the first captured response that has a price
+ */
+export function extractNetworkData(
+  responses: CapturedResponse[],
+  source: NetworkSource,
+  hints: ParsePriceOptions = {},
+  keywords: AvailabilityKeywords = {}
+): NetworkData | null {
+  for (const { url, body } of responses) {
+    const value = firstJsonPathValue(body, source.pricePath);
+    if (value === undefined) continue;
+
+    const currency = source.currencyPath ? firstJsonPathValue(body, source.currencyPath) : undefined;
+    const price = toStructuredPrice(value, currency, hints);
+    if (!price) continue;
+
+    const name = source.namePath ? firstJsonPathValue(body, source.namePath) : undefined;
+    const stock = source.availabilityPath ? firstJsonPathValue(body, source.availabilityPath) : undefined;
+
+    return {
+      price: price.price,
+      currency: price.currency,
+      rawPrice: price.rawPrice,
+      productName: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+      ...toAvailability(stock, keywords),
+      responseUrl: url,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Interpret a stock value from an API: flags, quantities, schema.org values or text
+ */
+export function toAvailability(
+  value: unknown,
+  keywords: AvailabilityKeywords = {}
+): { availability?: Availability; rawAvailability?: string } {
+  if (typeof value === 'boolean') {
+    return { availability: value ? 'in_stock' : 'out_of_stock', rawAvailability: String(value) };
+  }
+  if (typeof value === 'number') {
+    return { availability: value > 0 ? 'in_stock' : 'out_of_stock', rawAvailability: String(value) };
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const schema = normalizeSchemaAvailability(value);
+    const availability = schema !== 'unknown' ? schema : classifyAvailabilityText(value, keywords);
+    return availability !== 'unknown' ? { availability, rawAvailability: value.trim() } : {};
+  }
+
+  return {};
+}
@@ -0,0 +1,191 @@
+/**
+ * Per-domain politeness: robots.txt, a minimum interval between requests to a
+ * host, a cap on the pages open against it at once and a pause after it blocks us
+ *
+ * Requests wait for their host's turn in arrival order before they lease a
+ * page, so a big batch against one retailer is spread out over time while
+ * other hosts keep going.
+ */
+
+import { ScrapeError } from './errors';
+import { RobotsCache } from './robots';
+import { BlockInfo, PolitenessOptions } from './types';
+
+export const DEFAULT_DOMAIN_INTERVAL = 2000;
+export const DEFAULT_DOMAIN_CONCURRENCY = 2;
+export const DEFAULT_BLOCK_BACKOFF = 60 * 1000;
+
+/**
+ * Longest pause after repeated blocks
+ */
+export const MAX_BLOCK_BACKOFF = 30 * 60 * 1000;
+
+/**
+ * Longest Crawl-delay honoured, so a typo in robots.txt cannot stall a host for hours
+ */
+export const MAX_CRAWL_DELAY = 60 * 1000;
+
+/**
+ * How long a host with nothing running, queued or backing off keeps its state
+ */
+export const HOST_IDLE_TTL = 10 * 60 * 1000;
+
+interface HostState {
+  active: number;
+  lastStart: number;
+  interval: number;
+  queue: Array<() => void>;
+  timer: NodeJS.Timeout | null;
+  // Blocks since the last request that went through, and when requests may resume
+  blocks: number;
+  blockedUntil: number;
+  lastBlock: BlockInfo | null;
+}
+
+export class DomainScheduler {
+  private readonly hosts = new Map<string, HostState>();
+  private readonly robots: RobotsCache;
+  private readonly minInterval: number;
+  private readonly maxPerHost: number;
+  private readonly blockBackoff: number;
+
+  constructor(options: PolitenessOptions = {}) {
+    this.robots = new RobotsCache(options.robotsUserAgent);
+    this.minInterval = options.minInterval ?? DEFAULT_DOMAIN_INTERVAL;
+    this.maxPerHost = Math.max(1, options.maxPerHost || DEFAULT_DOMAIN_CONCURRENCY);
+    this.blockBackoff = options.blockBackoff ?? DEFAULT_BLOCK_BACKOFF;
+  }
+
+  /**
+   * Throw when robots.txt disallows a URL, unless the caller has permission to ignore it
+   */
+  async checkRobots(url: string, ignoreRobots = false): Promise<void> {
+    if (ignoreRobots) return;
+
+    if (!(await this.robots.isAllowed(url))) {
+      throw new ScrapeError('ROBOTS_DISALLOWED', `Disallowed by robots.txt: ${url}`);
+    }
+  }
+
+  /**
+   * Run a task once its host has a free slot and the interval since the last
+   * request to it has passed. Crawl-delay applies even when robots rules are ignored.
+   * Fails straight away while the host is backing off after a block.
+   */
+  async schedule<T>(url: string, task: () => Promise<T>, ignoreRobots = false): Promise<T> {
+    await this.checkRobots(url, ignoreRobots);
+
+    const host = new URL(url).hostname.toLowerCase();
+    const state = this.getState(host);
+    this.checkBackoff(host, state);
+    state.interval = await this.intervalFor(url);
+
+    await new Promise<void>(resolve => {
+      state.queue.push(resolve);
+      this.pump(state);
+    });
+
+    try {
+      // A block may have come in while this request was queued
+      this.checkBackoff(host, state);
+      const result = await task();
+      state.blocks = 0;
+      return result;
+    } finally {
+      state.active--;
+      this.pump(state);
+    }
+  }
+
+  /**
+   * Record that a host served a block page. Its requests fail fast for a while,
+   * twice as long after each further block, until one goes through again.
+   */
+  reportBlock(url: string, block: BlockInfo): void {
+    const state = this.getState(new URL(url).hostname.toLowerCase());
+    state.blocks++;
+    state.lastBlock = block;
+    state.blockedUntil = Date.now() + Math.min(this.blockBackoff * 2 ** (state.blocks - 1), MAX_BLOCK_BACKOFF);
+  }
+
+  /**
+   * Sitemaps a URL's site lists in its robots.txt
+   */
+  async sitemapsFor(url: string): Promise<string[]> {
+    return (await this.robots.getRules(url)).sitemaps || [];
+  }
+
+  /**
+   * Milliseconds to leave between requests to a URL's host
+   */
+  async intervalFor(url: string): Promise<number> {
+    const { crawlDelay } = await this.robots.getRules(url);
+    const delay = crawlDelay === undefined ? 0 : Math.min(crawlDelay * 1000, MAX_CRAWL_DELAY);
+    return Math.max(this.minInterval, delay);
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      this.evictIdle();
+      state = {
+        active: 0,
+        lastStart: 0,
+        interval: this.minInterval,
+        queue: [],
+        timer: null,
+        blocks: 0,
+        blockedUntil: 0,
+        lastBlock: null,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  // Forget hosts idle for HOST_IDLE_TTL, so a long-running service scraping many shops stays small
+  private evictIdle(): void {
+    const cutoff = Date.now() - HOST_IDLE_TTL;
+    for (const [host, state] of this.hosts) {
+      if (
+        state.active === 0 &&
+        state.queue.length === 0 &&
+        !state.timer &&
+        state.lastStart + state.interval < cutoff &&
+        state.blockedUntil < cutoff
+      ) {
+        this.hosts.delete(host);
+      }
+    }
+  }
+
+  private checkBackoff(host: string, state: HostState): void {
+    const wait = state.blockedUntil - Date.now();
+    if (wait <= 0 || !state.lastBlock) return;
+
+    throw new ScrapeError(
+      'BLOCKED',
+      `Backing off ${host} for ${Math.ceil(wait / 1000)}s after a block by ${state.lastBlock.vendor}`,
+      { block: state.lastBlock }
+    );
+  }
+
+  // Start the next queued task if the host has a free slot and its interval has passed
+  private pump(state: HostState): void {
+    if (state.timer || state.queue.length === 0 || state.active >= this.maxPerHost) return;
+
+    const wait = state.lastStart + state.interval - Date.now();
+    if (wait > 0) {
+      state.timer = setTimeout(() => {
+        state.timer = null;
+        this.pump(state);
+      }, wait);
+      return;
+    }
+
+    state.lastStart = Date.now();
+    state.active++;
+    state.queue.shift()!();
+    this.pump(state);
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Browser context and page pool
+ *
+ * Every lease gets a fresh page inside a context that nobody else is using,
+ * so concurrent scrapes never share cookies, storage or navigation state.
+ * Contexts behind a proxy are created per lease and closed afterwards; shared
+ * contexts are kept per emulation profile, wiped of the previous lease's site
+ * data before reuse (or closed when that fails), and replaced after a number
+ * of pages so their leaks do not pile up.
+ */
+
+import { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+
+export const DEFAULT_RECYCLE_AFTER = 50;
+
+export interface PagePoolOptions {
+  concurrency: number;
+  contextOptions?: BrowserContextOptions;
+  // Pages a context serves before it is closed and replaced
+  recycleAfter?: number;
+}
+
+export interface LeaseOptions {
+  proxy?: BrowserContextOptions['proxy'];
+  // Emulation profile whose options are layered over the pool's; its contexts are only reused for it
+  profile?: { name: string; contextOptions: BrowserContextOptions };
+}
+
+export interface PageLease {
+  page: Page;
+  context: BrowserContext;
+  release: () => Promise<void>;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface ContextUsage {
+  pages: number;
+  generation: number;
+}
+
+export class PagePool {
+  // Idle shared contexts by emulation profile, '' for none
+  private readonly idleContexts = new Map<string, BrowserContext[]>();
+  private waiters: Waiter[] = [];
+  private active = 0;
+  private closed = false;
+  private readonly usage = new WeakMap<BrowserContext, ContextUsage>();
+  // Contexts from an older generation are closed on release instead of reused
+  private generation = 0;
+  // Leased pages and when each last made progress
+  private readonly leases = new Map<Page, number>();
+  // Origins each leased page requested, whose site data is cleared on release
+  private readonly origins = new WeakMap<Page, Set<string>>();
+
+  constructor(
+    private readonly browser: Browser,
+    private readonly options: PagePoolOptions
+  ) {}
+
+  /**
+   * Number of pages currently leased out
+   */
+  get inUse(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of callers waiting for a free slot
+   */
+  get pending(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Maximum number of pages that may be open at once
+   */
+  get concurrency(): number {
+    return this.options.concurrency;
+  }
+
+  /**
+   * Lease an isolated page, waiting for a free slot if the pool is saturated
+   */
+  async acquire(leaseOptions: LeaseOptions = {}): Promise<PageLease> {
+    await this.acquireSlot();
+
+    const { proxy, profile } = leaseOptions;
+    const profileName = profile?.name || '';
+    const contextOptions = { ...this.options.contextOptions, ...profile?.contextOptions };
+    let context: BrowserContext | undefined;
+    let page: Page;
+    try {
+      context = proxy
+        ? await this.browser.newContext({ ...contextOptions, proxy })
+        : this.idleContexts.get(profileName)?.pop() || (await this.browser.newContext(contextOptions));
+      page = await context.newPage();
+      if (!proxy) this.trackOrigins(page);
+
+      const usage = this.usage.get(context) || { pages: 0, generation: this.generation };
+      usage.pages++;
+      this.usage.set(context, usage);
+      this.leases.set(page, Date.now());
+    } catch (error) {
+      if (context) {
+        await context.close().catch(() => undefined);
+      }
+      this.releaseSlot();
+      throw error;
+    }
+
+    let released = false;
+    const leasedContext = context;
+    return {
+      page,
+      context: leasedContext,
+      release: async () => {
+        if (released) return;
+        released = true;
+        await this.releaseLease(leasedContext, page, proxy ? null : profileName);
+      },
+    };
+  }
+
+  /**
+   * Run a function with a leased page and always release it afterwards
+   */
+  async withPage<T>(fn: (page: Page) => Promise<T>, leaseOptions: LeaseOptions = {}): Promise<T> {
+    const lease = await this.acquire(leaseOptions);
+    try {
+      return await fn(lease.page);
+    } finally {
+      await lease.release();
+    }
+  }
+
+  /**
+   * Replace every shared context: idle ones now, leased ones once released.
+   * Frees the memory a browser has built up without interrupting scrapes.
+   */
+  async recycle(): Promise<void> {
+    this.generation++;
+    const contexts = this.takeIdleContexts();
+    await Promise.all(contexts.map(context => context.close().catch(() => undefined)));
+  }
+
+  /**
+   * Record that a leased page is still making progress, e.g. moved to the next
+   * page of a list, so a long multi-step scrape is not closed as hung
+   */
+  touch(page: Page): void {
+    if (this.leases.has(page)) this.leases.set(page, Date.now());
+  }
+
+  /**
+   * Close pages that made no progress for longer than `maxAge` ms, failing whatever
+   * hangs on them. Returns how many were closed.
+   */
+  closeHungPages(maxAge: number): number {
+    const cutoff = Date.now() - maxAge;
+    let closed = 0;
+    for (const [page, activeAt] of this.leases) {
+      if (activeAt < cutoff) {
+        this.leases.delete(page);
+        page.close().catch(() => undefined);
+        closed++;
+      }
+    }
+    return closed;
+  }
+
+  /**
+   * Close every idle context and reject anyone still waiting for a slot
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    const waiters = this.waiters.splice(0);
+    for (const waiter of waiters) {
+      waiter.reject(new Error('Page pool is closed'));
+    }
+
+    const contexts = this.takeIdleContexts();
+    await Promise.all(contexts.map(context => context.close().catch(() => undefined)));
+  }
+
+  private takeIdleContexts(): BrowserContext[] {
+    const contexts = Array.from(this.idleContexts.values()).flat();
+    this.idleContexts.clear();
+    return contexts;
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new Error('Page pool is closed'));
+    }
+
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  private releaseSlot(): void {
+    // Hand the slot straight to the next waiter so the active count stays put
+    const next = this.waiters.shift();
+    if (next) {
+      next.resolve();
+    } else {
+      this.active--;
+    }
+  }
+
+  // `profileName` is null for proxied contexts, which are never shared
+  private async releaseLease(context: BrowserContext, page: Page, profileName: string | null): Promise<void> {
+    this.leases.delete(page);
+    try {
+      // Proxied contexts are tied to one proxy, so they are not reused, and worn ones are replaced
+      const reuse = !this.closed && profileName !== null && !this.isWorn(context);
+      if (reuse) {
+        // Reset per-site state before the context is handed to another request
+        await this.clearSiteData(context, page);
+      }
+      await page.close().catch(() => undefined);
+
+      if (!reuse || profileName === null) {
+        await context.close().catch(() => undefined);
+        return;
+      }
+
+      const idle = this.idleContexts.get(profileName) || [];
+      idle.push(context);
+      this.idleContexts.set(profileName, idle);
+    } catch {
+      await context.close().catch(() => undefined);
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private trackOrigins(page: Page): void {
+    const origins = new Set<string>();
+    this.origins.set(page, origins);
+    page.on('request', request => {
+      const url = new URL(request.url());
+      if (url.protocol === 'http:' || url.protocol === 'https:') origins.add(url.origin);
+    });
+  }
+
+  /**
+   * Clear what a lease left in its context: cookies, and for every origin its
+   * page requested the local storage, IndexedDB, cache storage and service
+   * workers, plus the HTTP cache. Session storage goes with the page.
+   */
+  private async clearSiteData(context: BrowserContext, page: Page): Promise<void> {
+    await context.clearCookies();
+
+    const session = await context.newCDPSession(page);
+    try {
+      for (const origin of this.origins.get(page) || []) {
+        await session.send('Storage.clearDataForOrigin', { origin, storageTypes: 'all' });
+      }
+      await session.send('Network.clearBrowserCache');
+    } finally {
+      await session.detach().catch(() => undefined);
+    }
+  }
+
+  private isWorn(context: BrowserContext): boolean {
+    const usage = this.usage.get(context);
+    return (
+      !usage ||
+      usage.generation < this.generation ||
+      usage.pages >= (this.options.recycleAfter || DEFAULT_RECYCLE_AFTER)
+    );
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * robots.txt parsing and a per-origin cache of the rules that apply to us
+ *
+ * Rules follow RFC 9309: the groups naming our product token apply, else the
+ * `*` groups; the longest matching path pattern decides, and Allow wins a tie. `*` and a trailing `$`
+ * are supported in patterns.
+ */
+
+import { getUserAgent } from './utils';
+
+/**
+ * Product token looked up in robots.txt user-agent lines
+ */
+export const DEFAULT_ROBOTS_USER_AGENT = 'CompetitorTracker';
+
+/**
+ * How long fetched rules are kept, and how long a failed fetch is remembered
+ */
+export const ROBOTS_TTL = 60 * 60 * 1000;
+export const ROBOTS_ERROR_TTL = 10 * 60 * 1000;
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  // Seconds between requests asked for by the site
+  crawlDelay?: number;
+  // Sitemap URLs listed in the file; they apply to every user-agent
+  sitemaps?: string[];
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * Extract the rules of the group that applies to a user-agent token
+ */
+export function parseRobots(text: string, userAgent: string = DEFAULT_ROBOTS_USER_AGENT): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (field === 'sitemap' && value) {
+      sitemaps.push(value);
+      continue;
+    }
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  // Groups naming our product token, else the * groups
+  const token = productToken(userAgent);
+  const named = groups.filter(group => group.agents.some(agent => token !== '' && productToken(agent) === token));
+  const matching = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+
+  const delays = matching.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+    sitemaps: sitemaps.length > 0 ? sitemaps : undefined,
+  };
+}
+
+/**
+ * Lower-cased product token of a user-agent, e.g. "googlebot" for "Googlebot/2.1 (+http://...)"
+ */
+function productToken(userAgent: string): string {
+  return userAgent.trim().toLowerCase().match(/^[a-z_-]+/)?.[0] ?? '';
+}
+
+/**
+ * Whether a path (with its query string) may be fetched under the given rules
+ */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  if (path === '/robots.txt') return true;
+
+  let best: RobotsRule | null = null;
+  for (const rule of rules.rules) {
+    if (!matchesPattern(rule.pattern, path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Fetches robots.txt once per origin and keeps the rules for ROBOTS_TTL.
+ * A missing file (4xx) allows everything; so does an unreachable one, which
+ * is retried sooner.
+ */
+export class RobotsCache {
+  private readonly entries = new Map<string, { rules: Promise<RobotsRules>; expiresAt: number }>();
+
+  constructor(private readonly userAgent: string = DEFAULT_ROBOTS_USER_AGENT) {}
+
+  /**
+   * Rules that apply to a URL's origin
+   */
+  async getRules(url: string): Promise<RobotsRules> {
+    const origin = new URL(url).origin;
+    const cached = this.entries.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules;
+    }
+
+    // Concurrent callers share one fetch
+    this.evictExpired();
+    const rules = this.fetchRules(origin);
+    this.entries.set(origin, { rules, expiresAt: Date.now() + ROBOTS_TTL });
+    return rules;
+  }
+
+  /**
+   * Whether robots.txt lets us fetch a URL
+   */
+  async isAllowed(url: string): Promise<boolean> {
+    const { pathname, search } = new URL(url);
+    return isPathAllowed(await this.getRules(url), `${pathname}${search}`);
+  }
+
+  // Drop the rules of origins not asked about since they expired
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [origin, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(origin);
+    }
+  }
+
+  private async fetchRules(origin: string): Promise<RobotsRules> {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': getUserAgent() },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (response.ok) {
+        return parseRobots(await response.text(), this.userAgent);
+      }
+      if (response.status >= 500) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return { rules: [] };
+    } catch (error) {
+      console.warn(`Could not fetch ${origin}/robots.txt, allowing all paths:`, error instanceof Error ? error.message : error);
+      const entry = this.entries.get(origin);
+      if (entry) entry.expiresAt = Date.now() + ROBOTS_ERROR_TTL;
+      return { rules: [] };
+    }
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Request validation schemas, shared by the HTTP service and the CLI
+ */
+
+import { z } from 'zod';
+import { parseJsonPath } from './jsonpath';
+import { BUILT_IN_PROFILES } from './emulation';
+import { CALLBACK_ALLOWED_HOSTS, EMULATION_PROFILES, PROXY_POOLS } from './config';
+import { getCallbackUrlError } from './callbacks';
+import { toSiteUrl } from './discovery';
+import { FIXTURE_NAME_PATTERN } from './fixtures';
+import { Selector } from './types';
+
+const priceStrategySchema = z.enum(['adapter', 'selector', 'network', 'json-ld', 'microdata', 'meta']);
+
+const fetchModeSchema = z.enum(['browser', 'http']);
+
+// Each page action step may carry its own timeout and be marked optional
+const actionOptions = {
+  timeout: z.number().int().min(1).max(60000).optional(),
+  optional: z.boolean().optional(),
+};
+const optionalSelector = z.string().optional().transform(value => value || undefined);
+
+const pageActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('click'), selector: z.string().min(1), ...actionOptions }),
+  z.object({ type: z.literal('fill'), selector: z.string().min(1), value: z.string(), ...actionOptions }),
+  z.object({ type: z.literal('select'), selector: z.string().min(1), value: z.string().min(1), ...actionOptions }),
+  z.object({ type: z.literal('press'), key: z.string().min(1), selector: optionalSelector, ...actionOptions }),
+  z.object({
+    type: z.literal('waitForSelector'),
+    selector: z.string().min(1),
+    state: z.enum(['attached', 'detached', 'visible', 'hidden']).optional(),
+    ...actionOptions,
+  }),
+  z.object({ type: z.literal('wait'), ms: z.number().int().min(0).max(30000), ...actionOptions }),
+  z.object({ type: z.literal('scroll'), selector: optionalSelector, ...actionOptions }),
+]);
+
+// Pools are configured on the service, so requests can only pick one by name
+const proxyPoolSchema = z.string().optional().transform(value => value || undefined).refine(
+  name => !name || name in PROXY_POOLS,
+  name => ({ message: `Unknown proxy pool: ${name}` })
+);
+
+// Likewise for emulation profiles, which may also be built in
+const profileSchema = z.string().optional().transform(value => value || undefined).refine(
+  name => !name || name in EMULATION_PROFILES || name in BUILT_IN_PROFILES,
+  name => ({ message: `Unknown emulation profile: ${name}` })
+);
+
+// JSONPath expressions are parsed up front so typos fail the request, not the scrape
+const jsonPathSchema = z.string().min(1).superRefine((path, ctx) => {
+  try {
+    parseJsonPath(path);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : 'Invalid JSONPath',
+    });
+  }
+});
+
+const networkSourceSchema = z.object({
+  urlPattern: z.string().min(1),
+  pricePath: jsonPathSchema,
+  currencyPath: jsonPathSchema.optional(),
+  namePath: jsonPathSchema.optional(),
+  availabilityPath: jsonPathSchema.optional(),
+});
+
+const availabilityKeywordsSchema = z.object({
+  inStock: z.array(z.string().min(1)).optional(),
+  outOfStock: z.array(z.string().min(1)).optional(),
+  preorder: z.array(z.string().min(1)).optional(),
+  backorder: z.array(z.string().min(1)).optional(),
+});
+
+// Plain strings are CSS; a spec picks XPath or a regex over the page HTML and may read an attribute
+const selectorSpecSchema = z.object({
+  type: z.enum(['css', 'xpath', 'regex']),
+  value: z.string().min(1),
+  attribute: z.string().optional().transform(value => value || undefined),
+}).superRefine((spec, ctx) => {
+  if (spec.type !== 'regex') return;
+
+  if (spec.attribute) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['attribute'],
+      message: 'attribute cannot be combined with a regex selector',
+    });
+  }
+  try {
+    new RegExp(spec.value);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: error instanceof Error ? error.message : 'Invalid regular expression',
+    });
+  }
+});
+
+const selectorSchema = z.union([z.string(), selectorSpecSchema]);
+
+export const scrapeTargetSchema = z.object({
+  url: z.string().url(),
+  // Empty selectors (e.g. from n8n templates) mean "structured data only"
+  priceSelector: selectorSchema.optional().transform(value => value || undefined),
+  strategies: z.array(priceStrategySchema).min(1).optional(),
+  originalPriceSelector: selectorSchema.optional().transform(value => value || undefined),
+  availabilitySelector: selectorSchema.optional().transform(value => value || undefined),
+  availabilityKeywords: availabilityKeywordsSchema.optional(),
+  network: networkSourceSchema.nullish().transform(value => value || undefined),
+  fetchMode: fetchModeSchema.optional(),
+  proxyPool: proxyPoolSchema,
+  profile: profileSchema,
+  ignoreRobots: z.boolean().optional(),
+  actions: z.array(pageActionSchema).max(20).nullish().transform(value => value || undefined),
+  evidence: z.object({
+    screenshot: z.enum(['page', 'element']).optional(),
+    html: z.boolean().optional(),
+  }).nullish().transform(value => value || undefined),
+  recordFixture: z.string().regex(FIXTURE_NAME_PATTERN, 'Letters, digits, - and _ only').optional(),
+  nameSelector: selectorSchema.optional().transform(value => value || undefined),
+  imageSelector: selectorSchema.optional().transform(value => value || undefined),
+  currency: z.string().length(3).optional(),
+  locale: z.string().optional().transform(value => value || undefined),
+  waitForSelector: z.string().optional(),
+  timeout: z.number().optional(),
+});
+
+// A strategy chain is useless when every strategy in it lacks its configuration
+export const requireUsableStrategy = (
+  target: { priceSelector?: Selector; network?: unknown; strategies?: string[] },
+  ctx: z.RefinementCtx
+) => {
+  if (!target.priceSelector && target.strategies?.every(strategy => strategy === 'selector')) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['priceSelector'],
+      message: 'priceSelector is required when only the selector strategy is enabled',
+    });
+  }
+  if (!target.network && target.strategies?.every(strategy => strategy === 'network')) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['network'],
+      message: 'network is required when only the network strategy is enabled',
+    });
+  }
+};
+
+export const scrapeRequestSchema = scrapeTargetSchema.superRefine(requireUsableStrategy);
+
+export const scrapeBatchRequestSchema = z.object({
+  competitors: z.array(
+    scrapeTargetSchema.extend({
+      id: z.string(),
+    }).superRefine(requireUsableStrategy)
+  ).min(1).max(50), // Limit to 50 competitors per batch
+});
+
+export const scrapeListRequestSchema = z.object({
+  url: z.string().url(),
+  itemSelector: z.string().min(1),
+  fields: z.object({
+    price: z.string().min(1),
+    name: z.string().optional().transform(value => value || undefined),
+    link: z.string().optional().transform(value => value || undefined),
+    image: z.string().optional().transform(value => value || undefined),
+  }),
+  pagination: z.object({
+    nextSelector: z.string().min(1),
+    maxPages: z.number().int().min(1).max(20).optional(), // Limit to 20 pages per list
+  }).optional(),
+  proxyPool: proxyPoolSchema,
+  profile: profileSchema,
+  ignoreRobots: z.boolean().optional(),
+  currency: z.string().length(3).optional(),
+  locale: z.string().optional().transform(value => value || undefined),
+  waitForSelector: z.string().optional(),
+  timeout: z.number().optional(),
+});
+
+// http(s) only, to an allowed host or one that is not a private address
+const callbackUrlSchema = z.string().url().superRefine((url, ctx) => {
+  const error = getCallbackUrlError(url, CALLBACK_ALLOWED_HOSTS);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+export const scrapeJobRequestSchema = scrapeBatchRequestSchema.extend({
+  callbackUrl: callbackUrlSchema.optional(),
+});
+
+// A substring, or a /regex/flags pattern that must compile
+const urlPatternSchema = z.string().min(1).superRefine((pattern, ctx) => {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (!regex) return;
+  try {
+    new RegExp(regex[1], regex[2]);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : 'Invalid regular expression',
+    });
+  }
+});
+
+export const discoveryRequestSchema = z.object({
+  // Bare domains are accepted
+  url: z.string().min(1).transform(toSiteUrl).pipe(z.string().url()),
+  mode: z.enum(['sitemap', 'crawl']).optional(),
+  include: z.array(urlPatternSchema).max(20).optional(),
+  exclude: z.array(urlPatternSchema).max(20).optional(),
+  maxProducts: z.number().int().min(1).max(5000).optional(),
+  maxPages: z.number().int().min(1).max(200).optional(),
+  fetchTitles: z.boolean().optional(),
+  ignoreRobots: z.boolean().optional(),
+  callbackUrl: callbackUrlSchema.optional(),
+  owner: z.string().min(1).max(200).optional(),
+});
+
+export const fixtureReplayRequestSchema = z.object({
+  // Every stored fixture when omitted
+  names: z.array(z.string().regex(FIXTURE_NAME_PATTERN, 'Letters, digits, - and _ only')).min(1).max(500).optional(),
+});
+
+export const detectSelectorsRequestSchema = z.object({
+  url: z.string().url(),
+  waitForSelector: z.string().optional(),
+  timeout: z.number().optional(),
+  limit: z.number().int().min(1).max(20).optional(),
+});
@@ -2,23 +2,255 @@
  * Playwright-based web scraper
  */
 
-import { chromium, Browser, Page, BrowserContext } from 'playwright';
-import { ScraperOptions, ScrapedData } from './types';
-import { parsePrice, extractText, extractImageUrl, getUserAgent, sleep, retry } from './utils';
+import { chromium, Browser, Page } from 'playwright';
+import {
+  Availability,
+  AvailabilityKeywords,
+  BlockInfo,
+  BrowserHealth,
+  DetectedSelectors,
+  Evidence,
+  EvidenceOptions,
+  FetchMode,
+  FixtureReplay,
+  FixtureSummary,
+  ListFieldSelectors,
+  ListPagination,
+  ListProduct,
+  NetworkSource,
+  PageAction,
+  PriceStrategy,
+  ProductVariant,
+  Selector,
+  ScraperOptions,
+  ScrapedData,
+  ScrapeBatchResult,
+  ScrapeErrorCode,
+  ScrapeResult,
+  SupervisionOptions,
+} from './types';
+import { DEFAULT_RECYCLE_AFTER, PagePool } from './pool';
+import { detectSelectors } from './detector';
+import { collectListItems, toListProduct } from './listing';
+import { runPageActions } from './actions';
+import { ArtifactStore } from './artifacts';
+import { PROXY_AUTH_REQUIRED, ScrapeError, getErrorCode, getStatusCode, isRetryable, wrapError } from './errors';
+import {
+  describeSelector,
+  queryDocument,
+  queryElement,
+  readDocumentSelector,
+  readSelector,
+  readsElementText,
+} from './selectors';
+import { EmulationProfiles, EmulationProfileSummary } from './emulation';
+import { fetchJsonDocument, fetchStaticDocument, fetchTextDocument, StaticFetchOptions, TextDocument } from './static';
+import { AdapterRead, readWithAdapter } from './adapters';
+import {
+  diffResults,
+  FixtureRecorder,
+  FixtureReplayer,
+  FixtureSession,
+  FixtureStore,
+  toFixtureOptions,
+} from './fixtures';
+import { classifyAvailabilityText, normalizeSchemaAvailability } from './availability';
+import { extractNetworkData, NetworkData, ResponseCapture } from './network';
+import { isProxyError, ProxyAssignment, ProxyManager, ProxyStats } from './proxy';
+import { DomainScheduler } from './politeness';
+import { detectBlock, isBlockedStatus } from './blocking';
+import { recordRetry, recordScrape, ScrapeTiming } from './metrics';
+import {
+  assessHealth,
+  DEFAULT_MAX_BROWSER_MEMORY,
+  DEFAULT_PAGE_TIMEOUT,
+  readBrowserMemory,
+  SUPERVISION_INTERVAL,
+} from './supervisor';
+import {
+  collectDocumentSources,
+  collectStructuredSources,
+  extractStructuredAvailability,
+  extractStructuredPrice,
+  StructuredPrice,
+  StructuredSources,
+} from './structured';
+import { getLocaleCurrency } from './currency';
+import { parsePrice, calculateDiscountPercent, getUserAgent, sleep, retry } from './utils';
+
+/**
+ * Default number of pages that may be scraped in parallel
+ */
+export const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Price strategies tried when a request does not name its own. A site adapter
+ * knows its platform better than a generic selector, so it goes first.
+ */
+export const DEFAULT_PRICE_STRATEGIES: PriceStrategy[] = ['adapter', 'selector', 'json-ld', 'microdata', 'meta'];
+
+/**
+ * Pages followed in list mode when pagination does not set maxPages
+ */
+export const DEFAULT_LIST_MAX_PAGES = 5;
+
+/**
+ * Evidence kept from every failed scrape, whatever the request asked for
+ */
+const FAILURE_EVIDENCE: EvidenceOptions = { screenshot: 'page', html: true };
+
+/**
+ * Failures of an HTTP-mode scrape that are tried again in the browser: the
+ * price is not in the HTML, which scripts may still render
+ */
+const BROWSER_FALLBACK_CODES = new Set<ScrapeErrorCode>(['SELECTOR_NOT_FOUND', 'EMPTY_TEXT', 'PRICE_PARSE_FAILED']);
+
+/**
+ * Price element text without struck-through parts, plus the nearest struck-through text
+ */
+interface PriceText {
+  text: string;
+  struckText: string | null;
+}
+
+/**
+ * What a site adapter found besides the price
+ */
+interface AdapterDetails {
+  adapter: string;
+  availability?: Availability;
+  rawAvailability?: string;
+  variants?: ProductVariant[];
+  images?: string[];
+}
+
+/**
+ * Page access shared by the extraction steps of one scrape, backed either by
+ * a browser page or by HTML fetched without one. Lazy values are computed once.
+ */
+interface ExtractionContext {
+  // Wait for the page to go idle before reading the DOM (no-op once done)
+  settle: () => Promise<void>;
+  getSources: () => Promise<StructuredSources>;
+  getNetworkData: () => Promise<NetworkData | null>;
+  // The platform adapter's reading of the page, null when no adapter knows it
+  readAdapter: () => Promise<AdapterRead | null>;
+  // Value a selector points at, see readSelector
+  read: (selector: Selector, fallbackAttributes?: string[]) => Promise<string | null>;
+  // null when no element matches; regex and attribute reads always return text
+  readPrice: (selector: Selector) => Promise<PriceText | null>;
+}
+
+export interface ScrapeBatchItem {
+  url: string;
+  priceSelector?: Selector;
+  strategies?: PriceStrategy[];
+  nameSelector?: Selector;
+  imageSelector?: Selector;
+  timeout?: number;
+  waitForSelector?: string;
+  currency?: string;
+  locale?: string;
+  originalPriceSelector?: Selector;
+  availabilitySelector?: Selector;
+  availabilityKeywords?: AvailabilityKeywords;
+  network?: NetworkSource;
+  fetchMode?: FetchMode;
+  proxyPool?: string;
+  profile?: string;
+  ignoreRobots?: boolean;
+  actions?: PageAction[];
+  evidence?: EvidenceOptions;
+  recordFixture?: string;
+}
+
+export interface ScrapeItemResult {
+  success: boolean;
+  data?: ScrapedData;
+  error?: string;
+  code?: ScrapeErrorCode;
+  blocked?: BlockInfo;
+  evidence?: Evidence;
+  url: string;
+}
 
 export class Scraper {
   private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
-  private page: Page | null = null;
+  private pool: PagePool | null = null;
+  private initializing: Promise<void> | null = null;
+
+  private readonly proxies: ProxyManager;
+  private readonly profiles: EmulationProfiles;
+  private readonly politeness: DomainScheduler;
+  private readonly artifacts: ArtifactStore;
+  private readonly fixtures: FixtureStore;
+  private readonly supervision: Required<SupervisionOptions>;
+
+  // What supervision has seen, reported by getHealth()
+  private supervisionTimer: NodeJS.Timeout | null = null;
+  private restarts = 0;
+  private lastCrashAt?: number;
+  private lastHungAt?: number;
+  private hungPagesClosed = 0;
+  private launchError?: string;
+  private browserMemory?: number;
 
   /**
-   * Initialize the browser
+   * @param defaults Launch options used when the browser is first needed, the
+   * proxy pools, the emulation profiles, the per-host limits, the artifact and
+   * fixture directories and supervision limits
+   */
+  constructor(private readonly defaults: ScraperOptions = {}) {
+    this.proxies = new ProxyManager(defaults.proxyPools);
+    this.profiles = new EmulationProfiles(defaults.emulationProfiles);
+    this.politeness = new DomainScheduler(defaults.politeness);
+    this.artifacts = new ArtifactStore(defaults.artifactDir);
+    this.fixtures = new FixtureStore(defaults.fixtureDir);
+    this.supervision = {
+      recycleAfter: defaults.supervision?.recycleAfter || DEFAULT_RECYCLE_AFTER,
+      maxBrowserMemory: defaults.supervision?.maxBrowserMemory ?? DEFAULT_MAX_BROWSER_MEMORY,
+      pageTimeout: defaults.supervision?.pageTimeout || DEFAULT_PAGE_TIMEOUT,
+    };
+  }
+
+  /**
+   * Read a stored evidence file by id
+   */
+  getArtifact(id: string): Promise<{ data: Buffer; contentType: string } | null> {
+    return this.artifacts.get(id);
+  }
+
+  /**
+   * Initialize the browser and page pool
    */
   async initialize(options: ScraperOptions = {}): Promise<void> {
     if (this.browser) {
       return; // Already initialized
     }
 
+    this.startSupervision();
+
+    // Concurrent callers share a single launch
+    if (!this.initializing) {
+      this.initializing = this.launch({ ...this.defaults, ...options })
+        .then(
+          () => {
+            this.launchError = undefined;
+          },
+          error => {
+            this.launchError = error instanceof Error ? error.message.split('\n')[0] : String(error);
+            throw error;
+          }
+        )
+        .finally(() => {
+          this.initializing = null;
+        });
+    }
+
+    await this.initializing;
+  }
+
+  private async launch(options: ScraperOptions): Promise<void> {
     const launchOptions: any = {
       headless: options.headless !== false, // Default to true
       args: [
@@ -32,111 +264,1018 @@ export class Scraper {
       ],
     };
 
-    this.browser = await chromium.launch(launchOptions);
-    this.context = await this.browser.newContext({
-      userAgent: options.userAgent || getUserAgent(),
-      viewport: { width: 1920, height: 1080 },
+    const browser = await chromium.launch(launchOptions);
+    browser.on('disconnected', () => this.handleDisconnect(browser));
+    this.pool = new PagePool(browser, {
+      concurrency: options.concurrency || DEFAULT_CONCURRENCY,
+      contextOptions: {
+        userAgent: options.userAgent || getUserAgent(),
+        viewport: { width: 1920, height: 1080 },
+      },
+      recycleAfter: this.supervision.recycleAfter,
     });
-    this.page = await this.context.newPage();
+    this.browser = browser;
   }
 
   /**
    * Close the browser
    */
   async close(): Promise<void> {
-    if (this.page) {
-      await this.page.close();
-      this.page = null;
+    if (this.supervisionTimer) {
+      clearInterval(this.supervisionTimer);
+      this.supervisionTimer = null;
     }
-    if (this.context) {
-      await this.context.close();
-      this.context = null;
+    if (this.pool) {
+      await this.pool.close();
+      this.pool = null;
     }
     if (this.browser) {
-      await this.browser.close();
+      // Cleared first so the disconnect is not taken for a crash
+      const browser = this.browser;
       this.browser = null;
+      await browser.close();
+    }
+  }
+
+  /**
+   * Browser readiness for the health check
+   */
+  getHealth(): BrowserHealth {
+    const browser = this.browser?.isConnected()
+      ? 'connected'
+      : this.restarts > 0 || this.launchError
+        ? 'disconnected'
+        : 'not_started';
+    const pages = this.getPoolStats();
+    const { status, issues } = assessHealth({
+      browser,
+      launchError: this.launchError,
+      lastCrashAt: this.lastCrashAt,
+      lastHungAt: this.lastHungAt,
+      memory: this.browserMemory,
+      maxBrowserMemory: this.supervision.maxBrowserMemory,
+      pages,
+    });
+
+    return {
+      status,
+      browser,
+      restarts: this.restarts,
+      lastCrashAt: this.lastCrashAt ? new Date(this.lastCrashAt).toISOString() : undefined,
+      launchError: this.launchError,
+      memory: this.browserMemory,
+      pages,
+      hungPagesClosed: this.hungPagesClosed,
+      issues,
+    };
+  }
+
+  // A browser that went away without close(): crashed or killed, so start a new one
+  private handleDisconnect(browser: Browser): void {
+    if (this.browser !== browser) return;
+
+    console.error('Browser disconnected unexpectedly, relaunching');
+    this.restarts++;
+    this.lastCrashAt = Date.now();
+    this.browserMemory = undefined;
+    // Waiting scrapes fail and are retried against the new browser
+    this.pool?.close().catch(() => undefined);
+    this.pool = null;
+    this.browser = null;
+
+    this.initialize().catch(error => {
+      console.error('Browser relaunch failed:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  private startSupervision(): void {
+    if (this.supervisionTimer) return;
+
+    this.supervisionTimer = setInterval(() => {
+      this.supervise().catch(error => {
+        console.error('Browser supervision error:', error instanceof Error ? error.message : error);
+      });
+    }, SUPERVISION_INTERVAL);
+    // Supervision alone should not keep the process alive
+    this.supervisionTimer.unref();
+  }
+
+  // Relaunch a browser that could not be started, close hung pages and recycle contexts past the memory limit
+  private async supervise(): Promise<void> {
+    if (!this.browser) {
+      if (this.launchError && !this.initializing) {
+        await this.initialize().catch(() => undefined);
+      }
+      return;
+    }
+    if (!this.pool) return;
+
+    const hung = this.pool.closeHungPages(this.supervision.pageTimeout);
+    if (hung > 0) {
+      console.warn(`Closed ${hung} page(s) idle for more than ${this.supervision.pageTimeout}ms`);
+      this.hungPagesClosed += hung;
+      this.lastHungAt = Date.now();
+    }
+
+    const memory = await readBrowserMemory(this.browser);
+    this.browserMemory = memory ?? undefined;
+    const limit = this.supervision.maxBrowserMemory;
+    if (limit && memory && memory > limit * 1024 * 1024) {
+      console.warn(`Browser uses ${Math.round(memory / 1024 / 1024)} MB, over ${limit} MB: recycling contexts`);
+      await this.pool.recycle();
     }
   }
 
   /**
-   * Scrape a single URL for pricing data
+   * Pages currently leased from the pool and callers waiting for one
+   */
+  getPoolStats(): { inUse: number; pending: number; concurrency: number } {
+    return {
+      inUse: this.pool?.inUse || 0,
+      pending: this.pool?.pending || 0,
+      concurrency: this.pool?.concurrency || 0,
+    };
+  }
+
+  /**
+   * Health of the configured proxies
+   */
+  getProxyStats(): ProxyStats[] {
+    return this.proxies.getStats();
+  }
+
+  /**
+   * Built-in and configured emulation profiles
+   */
+  getProfiles(): EmulationProfileSummary[] {
+    return this.profiles.list();
+  }
+
+  /**
+   * GET a sitemap or category page over HTTP, paced and checked against
+   * robots.txt like a scrape. Used by catalog discovery.
+   */
+  async fetchText(url: string, options: ScraperOptions = {}): Promise<TextDocument> {
+    return this.politeness.schedule(
+      url,
+      () => fetchTextDocument(url, { timeout: options.timeout, userAgent: options.userAgent }),
+      options.ignoreRobots
+    );
+  }
+
+  /**
+   * Sitemaps a site lists in its robots.txt
+   */
+  getSitemaps(url: string): Promise<string[]> {
+    return this.politeness.sitemapsFor(url);
+  }
+
+  /**
+   * Lease a page for a URL once its host's politeness limits allow, under the
+   * requested emulation profile and behind a proxy when one applies to it. The
+   * proxy is taken out of rotation when the site refuses it or it fails to connect.
+   */
+  private async withPage<T>(
+    url: string,
+    options: ScraperOptions,
+    fn: (page: Page, proxy: ProxyAssignment | null) => Promise<T>
+  ): Promise<T> {
+    return this.politeness.schedule(url, () => this.withProxiedPage(url, options, fn), options.ignoreRobots);
+  }
+
+  private async withProxiedPage<T>(
+    url: string,
+    options: ScraperOptions,
+    fn: (page: Page, proxy: ProxyAssignment | null) => Promise<T>
+  ): Promise<T> {
+    await this.initialize(options);
+
+    if (!this.pool) {
+      throw new Error('Page pool not initialized');
+    }
+
+    const profileName = options.profile;
+    const profile = profileName
+      ? { name: profileName, contextOptions: this.profiles.contextOptions(profileName) }
+      : undefined;
+    // Cookies are cleared between leases, so the profile's are set on every page
+    const run = async (page: Page, proxy: ProxyAssignment | null) => {
+      if (profileName) {
+        const cookies = this.profiles.cookies(profileName, url);
+        if (cookies.length > 0) await page.context().addCookies(cookies);
+      }
+      return fn(page, proxy);
+    };
+
+    const proxy = this.proxies.select(url, options.proxyPool);
+    if (!proxy) {
+      return this.pool.withPage(page => run(page, null), { profile });
+    }
+
+    // Main-frame navigations answered with a block or proxy refusal status, including list pagination
+    const refused: number[] = [];
+    try {
+      const result = await this.pool.withPage(page => {
+        page.on('response', response => {
+          const status = response.status();
+          if (
+            response.frame() === page.mainFrame() &&
+            response.request().isNavigationRequest() &&
+            (isBlockedStatus(status) || status === PROXY_AUTH_REQUIRED)
+          ) {
+            refused.push(status);
+          }
+        });
+        return run(page, proxy);
+      }, { proxy: proxy.proxy, profile });
+
+      if (refused.length > 0) {
+        this.proxies.markUnhealthy(proxy, `HTTP ${refused[0]}`);
+      } else {
+        this.proxies.markHealthy(proxy);
+      }
+      return result;
+    } catch (error) {
+      if (refused.length > 0) {
+        this.proxies.markUnhealthy(proxy, `HTTP ${refused[0]}`);
+      } else if (error instanceof ScrapeError && error.block) {
+        this.proxies.markUnhealthy(proxy, `Blocked by ${error.block.vendor}`);
+      } else if (isProxyError(error) || getErrorCode(error) === 'PROXY_FAILED') {
+        this.proxies.markUnhealthy(proxy, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Scrape a single URL for pricing data on its own pooled page
    */
   async scrape(
     url: string,
-    priceSelector: string,
-    nameSelector?: string,
-    imageSelector?: string,
+    priceSelector: Selector | undefined,
+    nameSelector?: Selector,
+    imageSelector?: Selector,
     options: ScraperOptions = {}
   ): Promise<ScrapedData> {
-    await this.initialize(options);
+    const timing: ScrapeTiming = { requestedAt: Date.now() };
+    try {
+      const data = await this.scrapeOnce(url, priceSelector, nameSelector, imageSelector, options, timing);
+      recordScrape(url, timing, data.fetchMode);
+      return data;
+    } catch (error) {
+      recordScrape(url, timing, undefined, error);
+      throw error;
+    }
+  }
 
-    if (!this.page) {
-      throw new Error('Page not initialized');
+  private async scrapeOnce(
+    url: string,
+    priceSelector: Selector | undefined,
+    nameSelector: Selector | undefined,
+    imageSelector: Selector | undefined,
+    options: ScraperOptions,
+    timing: ScrapeTiming
+  ): Promise<ScrapedData> {
+    const start = () => {
+      // The caller gave up while this scrape waited for its turn
+      options.signal?.throwIfAborted();
+      timing.startedAt ??= Date.now();
+    };
+
+    if (options.fetchMode === 'http' && this.canFetchStatic(url, options)) {
+      const recorder = options.recordFixture ? new FixtureRecorder() : undefined;
+      try {
+        const data = await this.politeness.schedule(
+          url,
+          () => {
+            start();
+            return this.scrapeStatic(url, priceSelector, nameSelector, imageSelector, options, recorder);
+          },
+          options.ignoreRobots
+        );
+        await this.keepFixture(recorder, url, priceSelector, nameSelector, imageSelector, options, data);
+        return data;
+      } catch (error) {
+        // Only a price missing from the HTML may be rendered by scripts; anything else would fail the browser too
+        if (!BROWSER_FALLBACK_CODES.has(getErrorCode(error))) {
+          throw wrapError(error, `Failed to scrape ${url}`);
+        }
+      }
     }
 
-    const timeout = options.timeout || 30000;
+    try {
+      return await this.withPage(url, options, async (page, proxy) => {
+        start();
+        const recorder = options.recordFixture ? new FixtureRecorder() : undefined;
+        try {
+          const data = await this.extract(page, url, priceSelector, nameSelector, imageSelector, options, recorder);
+          const result = { ...data, proxyPool: proxy?.pool, profile: options.profile };
+          // Recorded while the page is open, as response bodies can only be read until it closes
+          await this.keepFixture(recorder, url, priceSelector, nameSelector, imageSelector, options, result);
+          const evidence = options.evidence
+            ? await this.captureEvidence(page, options.evidence, priceSelector).catch(error => {
+                console.warn(`Could not store evidence for ${url}:`, error instanceof Error ? error.message : error);
+                return undefined;
+              })
+            : undefined;
+          return { ...result, evidence };
+        } catch (error) {
+          // Keep what the page looked like, so the failure can be checked later
+          const evidence = await this.captureEvidence(page, FAILURE_EVIDENCE).catch(() => undefined);
+          throw new ScrapeError(getErrorCode(error), error instanceof Error ? error.message : String(error), {
+            evidence,
+            block: error instanceof ScrapeError ? error.block : undefined,
+          });
+        }
+      });
+    } catch (error) {
+      throw new ScrapeError(
+        getErrorCode(error),
+        `Failed to scrape ${url}: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof ScrapeError ? { evidence: error.evidence, block: error.block } : {}
+      );
+    }
+  }
+
+  /**
+   * Save what a successful scrape fetched as a fixture bundle. Best effort:
+   * the scrape's result stands either way.
+   */
+  private async keepFixture(
+    recorder: FixtureRecorder | undefined,
+    url: string,
+    priceSelector: Selector | undefined,
+    nameSelector: Selector | undefined,
+    imageSelector: Selector | undefined,
+    options: ScraperOptions,
+    data: ScrapedData
+  ): Promise<void> {
+    if (!recorder || !options.recordFixture) return;
 
     try {
-      // Navigate to the URL with timeout
-      await this.page.goto(url, {
-        waitUntil: 'networkidle',
-        timeout,
+      await this.fixtures.save({
+        name: options.recordFixture,
+        recordedAt: new Date().toISOString(),
+        fetchMode: data.fetchMode,
+        request: { url, priceSelector, nameSelector, imageSelector, options: toFixtureOptions(options) },
+        responses: await recorder.responses(),
+        result: data,
       });
+    } catch (error) {
+      console.warn(
+        `Could not record fixture ${options.recordFixture}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Stored fixture bundles
+   */
+  listFixtures(): Promise<FixtureSummary[]> {
+    return this.fixtures.list();
+  }
+
+  /**
+   * Names of the stored fixture bundles
+   */
+  fixtureNames(): Promise<string[]> {
+    return this.fixtures.names();
+  }
+
+  /**
+   * Run extraction again on a recorded fixture, offline, and compare the result
+   * with the recording; null when there is no such fixture. Browser recordings
+   * are served to a pooled page through request routing, HTTP ones parsed as fetched.
+   */
+  async replayFixture(name: string): Promise<FixtureReplay | null> {
+    const bundle = await this.fixtures.load(name);
+    if (!bundle) return null;
+
+    const { url, priceSelector, nameSelector, imageSelector, options } = bundle.request;
+    const replayer = new FixtureReplayer(bundle);
+    const replay = { name: bundle.name, url, recordedAt: bundle.recordedAt, recorded: bundle.result };
+
+    try {
+      const replayed =
+        bundle.fetchMode === 'http'
+          ? await this.scrapeStatic(url, priceSelector, nameSelector, imageSelector, options, replayer)
+          : await this.withReplayPage(options, page =>
+              this.extract(page, url, priceSelector, nameSelector, imageSelector, options, replayer)
+            );
+      const changes = diffResults(bundle.result, replayed);
+      return { ...replay, passed: changes.length === 0, replayed, changes };
+    } catch (error) {
+      return {
+        ...replay,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+        changes: [],
+      };
+    }
+  }
+
+  /**
+   * Replay several fixtures, no more at once than the page pool has pages, as
+   * HTTP recordings are parsed outside the pool. Null for fixtures that do not exist.
+   */
+  async replayFixtures(names: string[]): Promise<Array<FixtureReplay | null>> {
+    const concurrency = this.defaults.concurrency || DEFAULT_CONCURRENCY;
+    const replays: Array<FixtureReplay | null> = names.map(() => null);
 
-      // Wait for a specific selector if provided
-      if (options.waitForSelector) {
-        await this.page.waitForSelector(options.waitForSelector, { timeout: 5000 });
+    let next = 0;
+    const work = async () => {
+      while (next < names.length) {
+        const index = next++;
+        replays[index] = await this.replayFixture(names[index]);
       }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, names.length) }, work));
+    return replays;
+  }
 
-      // Wait a bit for any dynamic content to load
-      await sleep(1000);
+  /**
+   * Lease a page for a replay: no politeness wait or robots check, as nothing
+   * goes to the site, and no proxy
+   */
+  private async withReplayPage<T>(options: ScraperOptions, fn: (page: Page) => Promise<T>): Promise<T> {
+    await this.initialize(options);
+
+    if (!this.pool) {
+      throw new Error('Page pool not initialized');
+    }
+
+    const profile = options.profile
+      ? { name: options.profile, contextOptions: this.profiles.contextOptions(options.profile) }
+      : undefined;
+    return this.pool.withPage(fn, { profile });
+  }
+
+  /**
+   * Store a screenshot and/or the HTML of a page. Element screenshots show the
+   * price element and fall back to the whole page when it cannot be captured.
+   */
+  private async captureEvidence(
+    page: Page,
+    evidence: EvidenceOptions,
+    priceSelector?: Selector
+  ): Promise<Evidence> {
+    const captured: Evidence = { capturedAt: new Date().toISOString() };
+
+    if (evidence.screenshot) {
+      const element =
+        evidence.screenshot === 'element' && priceSelector ? await queryElement(page, priceSelector) : null;
+      const elementShot = element ? await element.screenshot({ type: 'png' }).catch(() => null) : null;
+
+      captured.screenshot = elementShot
+        ? await this.artifacts.put(elementShot, 'png')
+        : await this.artifacts.put(await page.screenshot({ fullPage: true, type: 'jpeg', quality: 70 }), 'jpg');
+    }
 
-      // Extract price
-      const priceElement = await this.page.$(priceSelector);
-      if (!priceElement) {
-        throw new Error(`Price element not found with selector: ${priceSelector}`);
+    if (evidence.html) {
+      captured.html = await this.artifacts.put(await page.content(), 'html');
+    }
+
+    return captured;
+  }
+
+  /**
+   * Whether a scrape can be done without a browser: JSON API capture, page
+   * actions, screenshots and proxies all need one
+   */
+  private canFetchStatic(url: string, options: ScraperOptions): boolean {
+    return (
+      !options.network &&
+      !options.actions?.length &&
+      !options.evidence?.screenshot &&
+      !this.proxies.resolvePool(url, options.proxyPool)
+    );
+  }
+
+  /**
+   * Fetch a page over HTTP without a browser and extract pricing data from its HTML
+   */
+  private async scrapeStatic(
+    url: string,
+    priceSelector: Selector | undefined,
+    nameSelector: Selector | undefined,
+    imageSelector: Selector | undefined,
+    options: ScraperOptions,
+    fixture?: FixtureSession
+  ): Promise<ScrapedData> {
+    const fetchOptions: StaticFetchOptions = {
+      timeout: options.timeout,
+      userAgent: options.userAgent,
+      headers: options.profile ? this.profiles.httpHeaders(options.profile, url) : undefined,
+    };
+    const fetchDocument = () =>
+      fetchStaticDocument(url, fetchOptions).catch(error => {
+        // The host needs a rest, as after a block in the browser
+        if (error instanceof ScrapeError && error.block) this.politeness.reportBlock(url, error.block);
+        throw error;
+      });
+    const { document, html, url: finalUrl, close } = await (fixture
+      ? fixture.fetchDocument(fetchDocument)
+      : fetchDocument());
+
+    let sources: StructuredSources | null = null;
+    let adapterRead: Promise<AdapterRead | null> | null = null;
+    const hints = { locale: options.locale, currency: options.currency };
+    const context: ExtractionContext = {
+      settle: async () => undefined, // Nothing runs after the HTML arrives
+      getSources: async () => (sources = sources || collectDocumentSources(document)),
+      getNetworkData: async () => null,
+      readAdapter: () => {
+        const liveJson = (target: string) => fetchJsonDocument(target, fetchOptions);
+        const fetchJson = (target: string) => (fixture ? fixture.fetchJson(target, liveJson) : liveJson(target));
+        adapterRead = adapterRead || readWithAdapter({ url: finalUrl, html, document, fetchJson }, hints);
+        return adapterRead;
+      },
+      read: async (selector, fallbackAttributes) => readDocumentSelector(document, html, selector, fallbackAttributes),
+      readPrice: async selector => {
+        if (!readsElementText(selector)) {
+          const text = readDocumentSelector(document, html, selector);
+          return { text: text || '', struckText: null };
+        }
+        const element = queryDocument(document, selector);
+        return element ? readPriceText(element) : null;
+      },
+    };
+
+    try {
+      const data = await this.extractData(context, priceSelector, nameSelector, imageSelector, options);
+      const evidence: Evidence | undefined = options.evidence?.html
+        ? { html: await this.artifacts.put(html, 'html'), capturedAt: new Date().toISOString() }
+        : undefined;
+      return { ...data, fetchMode: 'http', profile: options.profile, evidence };
+    } finally {
+      close();
+    }
+  }
+
+  /**
+   * Navigate a leased page and extract pricing data from it
+   */
+  private async extract(
+    page: Page,
+    url: string,
+    priceSelector: Selector | undefined,
+    nameSelector: Selector | undefined,
+    imageSelector: Selector | undefined,
+    options: ScraperOptions,
+    fixture?: FixtureSession
+  ): Promise<ScrapedData> {
+    // Record or replay from the first request on
+    await fixture?.attach(page);
+
+    // Listen before navigating so API calls made during page load are not missed
+    const network = options.network;
+    const capture = network ? new ResponseCapture(page, network.urlPattern) : null;
+
+    // The JSON API usually answers long before the page is idle, so only wait for the DOM
+    await this.navigate(page, url, options, capture ? 'domcontentloaded' : 'networkidle');
+
+    // Dismiss banners, pick variants and the like before anything is read
+    const actions = options.actions?.length ? await runPageActions(page, options.actions) : undefined;
+
+    // Each of these runs at most once and is shared by every step that needs it
+    let settled: Promise<void> | null = capture ? null : Promise.resolve();
+    let sources: Promise<StructuredSources> | null = null;
+    let networkData: Promise<NetworkData | null> | null = null;
+    let adapterRead: Promise<AdapterRead | null> | null = null;
+    const hints = { locale: options.locale, currency: options.currency };
+    const context: ExtractionContext = {
+      settle: () => {
+        // Best effort: pages that never go idle are read as they are
+        settled = settled || page.waitForLoadState('networkidle', { timeout: options.timeout || 30000 }).catch(() => undefined);
+        return settled;
+      },
+      getSources: () => {
+        sources = sources || context.settle().then(() => collectStructuredSources(page));
+        return sources;
+      },
+      getNetworkData: () => {
+        if (!capture || !network) return Promise.resolve(null);
+        networkData =
+          networkData ||
+          capture
+            .waitForResponses()
+            .then(responses => extractNetworkData(responses, network, hints, options.availabilityKeywords));
+        return networkData;
+      },
+      readAdapter: () => {
+        // Same-origin JSON through the page's context, so cookies, profile and proxy apply
+        const liveJson = (target: string) =>
+          page.request
+            .get(target, { timeout: options.timeout || 30000 })
+            .then(response => (response.ok() ? response.json() : null))
+            .catch(() => null);
+        // page.request bypasses request routing, so fixtures see these calls here
+        const fetchJson = (target: string) => (fixture ? fixture.fetchJson(target, liveJson) : liveJson(target));
+        adapterRead =
+          adapterRead ||
+          context
+            .settle()
+            .then(async () => readWithAdapter({ url: page.url(), html: await page.content(), fetchJson }, hints));
+        return adapterRead;
+      },
+      read: (selector, fallbackAttributes) => readSelector(page, selector, fallbackAttributes),
+      readPrice: async selector => {
+        if (!readsElementText(selector)) {
+          // Attributes and HTML matches carry the bare price, with no struck-through sibling to find
+          const text = await readSelector(page, selector);
+          return { text: text || '', struckText: null };
+        }
+        const element = await queryElement(page, selector);
+        return element ? element.evaluate(readPriceText) : null;
+      },
+    };
+
+    const data = await this.extractData(context, priceSelector, nameSelector, imageSelector, options);
+    return { ...data, fetchMode: 'browser', actions };
+  }
+
+  /**
+   * Extract pricing data through an extraction context, whatever fetched the page
+   */
+  private async extractData(
+    context: ExtractionContext,
+    priceSelector: Selector | undefined,
+    nameSelector: Selector | undefined,
+    imageSelector: Selector | undefined,
+    options: ScraperOptions
+  ): Promise<Omit<ScrapedData, 'fetchMode'>> {
+    // Extract price, falling back through the strategy chain
+    const { priceSource, site, ...extracted } = await this.extractPrice(priceSelector, options, context);
+
+    // Remaining DOM reads need the rendered page, even when the price came from the API
+    if (options.originalPriceSelector || options.availabilitySelector || nameSelector || imageSelector) {
+      await context.settle();
+    }
+
+    // Regular price: explicit selector first, else what the extractor saw struck through
+    let originalPrice = extracted.originalPrice;
+    let rawOriginalPrice = extracted.rawOriginalPrice;
+    if (options.originalPriceSelector) {
+      const originalText = await context.read(options.originalPriceSelector);
+      if (originalText) {
+        try {
+          originalPrice = parsePrice(originalText, { locale: options.locale, currency: options.currency }).price;
+          rawOriginalPrice = originalText;
+        } catch {
+          // An unreadable list price should not fail the whole scrape
+        }
+      }
+    }
+
+    const discountPercent = calculateDiscountPercent(extracted.price, originalPrice);
+
+    const { availability, rawAvailability } = await this.extractAvailability(options, context, site);
+
+    // Extract product name if selector provided, else keep the structured one
+    let productName = extracted.productName;
+    if (nameSelector) {
+      productName = (await context.read(nameSelector)) || productName;
+    }
+
+    // Extract image URL if selector provided, else keep the structured one
+    let imageUrl = extracted.imageUrl;
+    if (imageSelector) {
+      // Fall back to data-src for lazy loading
+      imageUrl = (await context.read(imageSelector, ['src', 'data-src'])) || imageUrl;
+    }
+
+    return {
+      price: extracted.price,
+      currency:
+        extracted.currency ||
+        options.currency?.toUpperCase() ||
+        (options.locale && getLocaleCurrency(options.locale)) ||
+        'USD',
+      productName,
+      imageUrl,
+      rawPrice: extracted.rawPrice,
+      priceSource,
+      // Only report a list price when it is an actual markdown
+      originalPrice: discountPercent !== undefined ? originalPrice : undefined,
+      rawOriginalPrice: discountPercent !== undefined ? rawOriginalPrice : undefined,
+      discountPercent,
+      availability,
+      rawAvailability,
+      adapter: site?.adapter,
+      variants: site?.variants,
+      images: site?.images,
+    };
+  }
+
+  /**
+   * Load a URL and wait for its dynamic content to settle
+   */
+  private async navigate(
+    page: Page,
+    url: string,
+    options: ScraperOptions,
+    waitUntil: 'networkidle' | 'domcontentloaded' = 'networkidle'
+  ): Promise<void> {
+    const timeout = options.timeout || 30000;
+
+    // Navigate to the URL with timeout
+    const response = await page.goto(url, {
+      waitUntil,
+      timeout,
+    }).catch(error => {
+      const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      throw new ScrapeError(getErrorCode(error) === 'TIMEOUT' ? 'TIMEOUT' : 'NAVIGATION_FAILED', message);
+    });
+
+    // The proxy refused to forward the request; the site never saw it, so its host keeps its pace
+    const status = response?.status();
+    if (status === PROXY_AUTH_REQUIRED) {
+      throw new ScrapeError('PROXY_FAILED', `Proxy refused the request: HTTP ${status}`);
+    }
+
+    // A challenge or "access denied" page is not a broken selector, and the host needs a rest
+    const block = detectBlock({
+      status,
+      headers: response ? await response.allHeaders() : {},
+      title: await page.title().catch(() => ''),
+      html: await page.content().catch(() => ''),
+    });
+    if (block) {
+      this.politeness.reportBlock(url, block);
+      throw new ScrapeError('BLOCKED', `Blocked by ${block.vendor} (${block.reason})`, { block });
+    }
+
+    // Error pages have no price worth reading
+    if (status && status >= 400) {
+      throw new ScrapeError(getStatusCode(status), `HTTP ${status} ${response?.statusText() || ''}`.trim());
+    }
+
+    // Wait for a specific selector if provided
+    if (options.waitForSelector) {
+      try {
+        await page.waitForSelector(options.waitForSelector, { timeout: 5000 });
+      } catch {
+        throw new ScrapeError('SELECTOR_NOT_FOUND', `Selector did not appear: ${options.waitForSelector}`);
       }
+    }
+
+    // Wait a bit for any dynamic content to load
+    await sleep(1000);
+  }
+
+  /**
+   * Try each price strategy in order and return the first price found
+   */
+  private async extractPrice(
+    priceSelector: Selector | undefined,
+    options: ScraperOptions,
+    context: ExtractionContext
+  ): Promise<StructuredPrice & { priceSource: PriceStrategy; site?: AdapterDetails }> {
+    // A configured JSON API is the fastest source, so it goes first by default
+    const strategies = options.strategies?.length
+      ? options.strategies
+      : options.network
+        ? ['network' as const, ...DEFAULT_PRICE_STRATEGIES]
+        : DEFAULT_PRICE_STRATEGIES;
+    const hints = { locale: options.locale, currency: options.currency };
+    const failures: string[] = [];
+    // How the price selector failed, the most telling reason when nothing else found a price
+    let code: ScrapeErrorCode = 'SELECTOR_NOT_FOUND';
 
-      const priceText = await priceElement.textContent();
-      if (!priceText) {
-        throw new Error('Price element has no text content');
+    for (const strategy of strategies) {
+      if (strategy === 'adapter') {
+        const read = await context.readAdapter();
+        if (!read) {
+          failures.push('adapter: no site adapter recognises the page');
+          continue;
+        }
+        if (!read.data) {
+          failures.push(`adapter: ${read.adapter} ${read.error ? `failed: ${read.error}` : 'found no price'}`);
+          continue;
+        }
+
+        const { availability, rawAvailability, variants, images, ...price } = read.data;
+        return {
+          ...price,
+          priceSource: 'adapter',
+          site: { adapter: read.adapter, availability, rawAvailability, variants, images },
+        };
       }
 
-      const { price, currency } = parsePrice(priceText);
+      if (strategy === 'network') {
+        if (!options.network) {
+          failures.push('network: no network source configured');
+          continue;
+        }
 
-      // Extract product name if selector provided
-      let productName: string | undefined;
-      if (nameSelector) {
-        const nameElement = await this.page.$(nameSelector);
-        if (nameElement) {
-          productName = await nameElement.textContent();
-          productName = productName?.trim();
+        const data = await context.getNetworkData();
+        if (!data) {
+          failures.push(`network: no response matching ${options.network.urlPattern} had ${options.network.pricePath}`);
+          continue;
         }
+
+        return {
+          price: data.price,
+          currency: data.currency,
+          rawPrice: data.rawPrice,
+          productName: data.productName,
+          priceSource: 'network',
+        };
       }
 
-      // Extract image URL if selector provided
-      let imageUrl: string | undefined;
-      if (imageSelector) {
-        const imageElement = await this.page.$(imageSelector);
-        if (imageElement) {
-          imageUrl = await imageElement.getAttribute('src');
-          // Try data-src for lazy loading
-          if (!imageUrl) {
-            imageUrl = await imageElement.getAttribute('data-src');
+      if (strategy === 'selector') {
+        if (!priceSelector) {
+          failures.push('selector: no price selector configured');
+          continue;
+        }
+
+        await context.settle();
+
+        const read = await context.readPrice(priceSelector);
+        if (!read) {
+          code = 'SELECTOR_NOT_FOUND';
+          failures.push(`selector: Price element not found with selector: ${describeSelector(priceSelector)}`);
+          continue;
+        }
+
+        const { text: priceText, struckText } = read;
+        if (!priceText) {
+          code = 'EMPTY_TEXT';
+          failures.push(`selector: No price text found with selector: ${describeSelector(priceSelector)}`);
+          continue;
+        }
+
+        let parsed: { price: number; currency: string };
+        try {
+          parsed = parsePrice(priceText, hints);
+        } catch (error) {
+          code = 'PRICE_PARSE_FAILED';
+          failures.push(`selector: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+
+        let originalPrice: number | undefined;
+        if (struckText) {
+          try {
+            originalPrice = parsePrice(struckText, { ...hints, currency: parsed.currency }).price;
+          } catch {
+            // Struck-through text that is not a price (e.g. "RRP") is ignored
           }
         }
+
+        return {
+          ...parsed,
+          rawPrice: priceText,
+          originalPrice,
+          rawOriginalPrice: originalPrice !== undefined ? struckText || undefined : undefined,
+          priceSource: 'selector',
+        };
       }
 
-      return {
-        price,
-        currency,
-        productName,
-        imageUrl,
-        rawPrice: priceText.trim(),
-      };
+      const structured = extractStructuredPrice(strategy, await context.getSources(), hints);
+      if (structured) {
+        return { ...structured, priceSource: strategy };
+      }
+      failures.push(`${strategy}: no price data found`);
+    }
+
+    throw new ScrapeError(code, `Price not found (${failures.join('; ')})`);
+  }
+
+  /**
+   * Read stock status from the availability selector's text, else from the
+   * site adapter, else from the JSON API, else from schema.org data
+   */
+  private async extractAvailability(
+    options: ScraperOptions,
+    context: ExtractionContext,
+    site?: AdapterDetails
+  ): Promise<{ availability: Availability; rawAvailability?: string }> {
+    if (options.availabilitySelector) {
+      const text = await context.read(options.availabilitySelector);
+      if (text) {
+        // Attributes often hold schema.org values such as "InStock" rather than display text
+        const classified = classifyAvailabilityText(text, options.availabilityKeywords);
+        const availability = classified !== 'unknown' ? classified : normalizeSchemaAvailability(text);
+        if (availability !== 'unknown') {
+          return { availability, rawAvailability: text };
+        }
+      }
+    }
+
+    if (site?.availability && site.availability !== 'unknown') {
+      return { availability: site.availability, rawAvailability: site.rawAvailability };
+    }
+
+    const networkData = await context.getNetworkData();
+    if (networkData?.availability) {
+      return { availability: networkData.availability, rawAvailability: networkData.rawAvailability };
+    }
+
+    const structured = extractStructuredAvailability(await context.getSources());
+    if (structured) {
+      return { availability: normalizeSchemaAvailability(structured), rawAvailability: structured };
+    }
+
+    return { availability: 'unknown' };
+  }
+
+  /**
+   * Load a page and suggest ranked price, name and image selectors for it
+   */
+  async detectSelectors(url: string, options: ScraperOptions = {}, limit?: number): Promise<DetectedSelectors> {
+    try {
+      return await this.withPage(url, options, async page => {
+        await this.navigate(page, url, options);
+        return detectSelectors(page, limit);
+      });
     } catch (error) {
-      throw new Error(`Failed to scrape ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      throw wrapError(error, `Failed to detect selectors on ${url}`);
+    }
+  }
+
+  /**
+   * Scrape every product card on a category or search page, optionally
+   * following a "next page" link or button. Failures are retried like single
+   * scrapes, from the first page.
+   */
+  async scrapeList(
+    url: string,
+    itemSelector: string,
+    fields: ListFieldSelectors,
+    pagination?: ListPagination,
+    options: ScraperOptions = {},
+    maxRetries: number = 3
+  ): Promise<{ pages: number; products: ListProduct[] }> {
+    const maxPages = pagination ? pagination.maxPages || DEFAULT_LIST_MAX_PAGES : 1;
+    const hints = { locale: options.locale, currency: options.currency };
+
+    const scrapeOnce = () =>
+      this.withPage(url, options, async page => {
+        await this.navigate(page, url, options);
+
+        // "Load more" buttons re-render earlier items, so products are keyed as they are found
+        const products = new Map<string, ListProduct>();
+        const visited = new Set<string>([page.url()]);
+        let pages = 0;
+
+        while (pages < maxPages) {
+          pages++;
+          // Every list page restarts the hang timeout, which covers one page, not the whole list
+          this.pool?.touch(page);
+
+          for (const item of await collectListItems(page, itemSelector, fields)) {
+            const product = toListProduct(item, page.url(), pages, hints);
+            if (product && !products.has(product.matchKey)) {
+              products.set(product.matchKey, product);
+            }
+          }
+
+          if (!pagination || pages >= maxPages) break;
+          await sleep(await this.politeness.intervalFor(url)); // Pages of one list are paced like separate requests
+          if (!(await this.nextListPage(page, pagination.nextSelector, visited, options))) break;
+        }
+
+        return { pages, products: Array.from(products.values()) };
+      });
+
+    try {
+      return await retry(scrapeOnce, maxRetries, 1000, isRetryable, recordRetry);
+    } catch (error) {
+      throw wrapError(error, `Failed to scrape list ${url}`);
+    }
+  }
+
+  /**
+   * Move to the next list page by link or by click; false when there is none
+   */
+  private async nextListPage(
+    page: Page,
+    nextSelector: string,
+    visited: Set<string>,
+    options: ScraperOptions
+  ): Promise<boolean> {
+    const next = await page.$(nextSelector);
+    if (!next || !(await next.isVisible()) || (await next.isDisabled())) {
+      return false;
+    }
+
+    const href = await next.getAttribute('href');
+    if (href && !href.startsWith('#') && !href.startsWith('javascript:')) {
+      const nextUrl = new URL(href, page.url()).toString();
+      if (visited.has(nextUrl)) return false; // Last page links back to itself
+      visited.add(nextUrl);
+      await this.navigate(page, nextUrl, options);
+      return true;
     }
+
+    // Script-driven pagination or "load more"
+    await next.click();
+    await page.waitForLoadState('networkidle', { timeout: options.timeout || 30000 });
+    await sleep(1000);
+    return true;
   }
 
   /**
@@ -144,56 +1283,154 @@ export class Scraper {
    */
   async scrapeWithRetry(
     url: string,
-    priceSelector: string,
-    nameSelector?: string,
-    imageSelector?: string,
+    priceSelector: Selector | undefined,
+    nameSelector?: Selector,
+    imageSelector?: Selector,
     options: ScraperOptions = {},
     maxRetries: number = 3
   ): Promise<ScrapedData> {
+    // A disallowed URL stays disallowed, so fail before retrying
+    await this.politeness.checkRobots(url, options.ignoreRobots);
+
     return retry(
       () => this.scrape(url, priceSelector, nameSelector, imageSelector, options),
       maxRetries,
-      1000
+      1000,
+      error => !options.signal?.aborted && isRetryable(error),
+      recordRetry
     );
   }
 
   /**
-   * Scrape multiple URLs
+   * Scrape multiple URLs concurrently, bounded by the page pool
    */
   async scrapeBatch(
-    requests: Array<{
-      url: string;
-      priceSelector: string;
-      nameSelector?: string;
-      imageSelector?: string;
-    }>,
+    requests: ScrapeBatchItem[],
     options: ScraperOptions = {},
     maxRetries: number = 3
-  ): Promise<Array<{ success: boolean; data?: ScrapedData; error?: string; url: string }>> {
-    const results = [];
+  ): Promise<ScrapeItemResult[]> {
+    return Promise.all(requests.map(request => this.scrapeItem(request, options, maxRetries)));
+  }
 
-    for (const request of requests) {
-      try {
-        const data = await this.scrapeWithRetry(
-          request.url,
-          request.priceSelector,
-          request.nameSelector,
-          request.imageSelector,
-          options,
-          maxRetries
-        );
-        results.push({ success: true, data, url: request.url });
-      } catch (error) {
-        results.push({
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-          url: request.url,
-        });
-      }
+  /**
+   * Scrape a batch, handing over each result as soon as it is done. Once
+   * options.signal aborts no further scrapes start, and the results of those
+   * still running are dropped.
+   */
+  async streamBatch(
+    requests: ScrapeBatchItem[],
+    options: ScraperOptions,
+    onResult: (index: number, result: ScrapeItemResult) => void,
+    maxRetries: number = 3
+  ): Promise<void> {
+    await Promise.all(
+      requests.map(async (request, index) => {
+        const result = await this.scrapeItem(request, options, maxRetries);
+        if (!options.signal?.aborted) onResult(index, result);
+      })
+    );
+  }
+
+  /**
+   * Scrape one batch or job item, reporting failure as a result instead of throwing
+   */
+  async scrapeItem(
+    request: ScrapeBatchItem,
+    options: ScraperOptions = {},
+    maxRetries: number = 3
+  ): Promise<ScrapeItemResult> {
+    const itemOptions: ScraperOptions = {
+      ...options,
+      timeout: request.timeout || options.timeout,
+      waitForSelector: request.waitForSelector || options.waitForSelector,
+      strategies: request.strategies || options.strategies,
+      currency: request.currency || options.currency,
+      locale: request.locale || options.locale,
+      originalPriceSelector: request.originalPriceSelector || options.originalPriceSelector,
+      availabilitySelector: request.availabilitySelector || options.availabilitySelector,
+      availabilityKeywords: request.availabilityKeywords || options.availabilityKeywords,
+      network: request.network || options.network,
+      fetchMode: request.fetchMode || options.fetchMode,
+      proxyPool: request.proxyPool || options.proxyPool,
+      profile: request.profile || options.profile,
+      ignoreRobots: request.ignoreRobots ?? options.ignoreRobots,
+      actions: request.actions || options.actions,
+      evidence: request.evidence || options.evidence,
+      recordFixture: request.recordFixture || options.recordFixture,
+    };
+
+    try {
+      const data = await this.scrapeWithRetry(
+        request.url,
+        request.priceSelector,
+        request.nameSelector,
+        request.imageSelector,
+        itemOptions,
+        maxRetries
+      );
+      return { success: true, data, url: request.url };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+        blocked: error instanceof ScrapeError ? error.block : undefined,
+        evidence: error instanceof ScrapeError ? error.evidence : undefined,
+        url: request.url,
+      };
     }
+  }
+}
+
+/**
+ * Read a price element's text without any struck-through list price inside it,
+ * plus the nearest <del>/<s>/<strike> text in or around the element.
+ * Also runs inside the browser, so it must not use anything from this module.
+ */
+function readPriceText(el: Element): PriceText {
+  const struck = 'del, s, strike';
 
-    return results;
+  const clone = el.cloneNode(true) as Element;
+  for (const node of Array.from(clone.querySelectorAll(struck))) {
+    node.remove();
   }
+  const ownText = (clone.textContent || '').trim();
+
+  let struckText: string | null = el.querySelector(struck)?.textContent?.trim() || null;
+
+  // Look at siblings, then one level further up
+  let scope = el.parentElement;
+  for (let depth = 0; !struckText && scope && depth < 2; depth++) {
+    const sibling = Array.from(scope.querySelectorAll(struck)).find(
+      node => !el.contains(node) && !node.contains(el)
+    );
+    struckText = sibling?.textContent?.trim() || null;
+    scope = scope.parentElement;
+  }
+
+  return { text: ownText || (el.textContent || '').trim(), struckText };
+}
+
+/**
+ * Stamp scraped data with the time it is returned to the caller
+ */
+export function toScrapeResult(data: ScrapedData): ScrapeResult {
+  return { ...data, scrapedAt: new Date().toISOString() };
+}
+
+/**
+ * One batch item's outcome in the shape batch and job responses share
+ */
+export function toBatchResult(id: string, result: ScrapeItemResult): ScrapeBatchResult {
+  return {
+    id,
+    success: result.success,
+    data: result.data ? toScrapeResult(result.data) : undefined,
+    error: result.error,
+    code: result.code,
+    blocked: result.blocked,
+    evidence: result.evidence,
+  };
 }
 
 /**
@@ -201,10 +1438,10 @@ export class Scraper {
  */
 let scraperInstance: Scraper | null = null;
 
-export async function getScraper(): Promise<Scraper> {
+export async function getScraper(options: ScraperOptions = {}): Promise<Scraper> {
   if (!scraperInstance) {
-    scraperInstance = new Scraper();
-    await scraperInstance.initialize();
+    // The browser is launched on first use, so HTTP-only workloads never start it
+    scraperInstance = new Scraper(options);
   }
   return scraperInstance;
 }
@@ -0,0 +1,133 @@
+/**
+ * Typed selector specs: CSS, XPath or a regex over the page HTML,
+ * optionally reading an attribute instead of the element's text
+ */
+
+import { ElementHandle, Page } from 'playwright';
+import { Selector, SelectorSpec } from './types';
+
+/**
+ * Turn a plain string (always CSS) or a spec into a spec
+ */
+export function normalizeSelector(selector: Selector): SelectorSpec {
+  return typeof selector === 'string' ? { type: 'css', value: selector } : selector;
+}
+
+/**
+ * Human-readable form of a selector for error messages
+ */
+export function describeSelector(selector: Selector): string {
+  const spec = normalizeSelector(selector);
+  const attribute = spec.attribute ? ` @${spec.attribute}` : '';
+  return spec.type === 'css' ? `${spec.value}${attribute}` : `${spec.type}:${spec.value}${attribute}`;
+}
+
+/**
+ * Whether a selector points at an element whose text (not an attribute) is read
+ */
+export function readsElementText(selector: Selector): boolean {
+  const spec = normalizeSelector(selector);
+  return spec.type !== 'regex' && !spec.attribute;
+}
+
+/**
+ * First element matched by a CSS or XPath selector; regex selectors match no element
+ */
+export async function queryElement(page: Page, selector: Selector): Promise<ElementHandle | null> {
+  const spec = normalizeSelector(selector);
+
+  switch (spec.type) {
+    case 'css':
+      return page.$(spec.value);
+    case 'xpath':
+      return page.$(`xpath=${spec.value}`);
+    case 'regex':
+      return null;
+  }
+}
+
+/**
+ * Read the value a selector points at: the configured attribute, else the first
+ * non-empty fallback attribute, else the element's text. Regex selectors return
+ * their first capture group (or the whole match) from the page HTML.
+ */
+export async function readSelector(
+  page: Page,
+  selector: Selector,
+  fallbackAttributes: string[] = []
+): Promise<string | null> {
+  const spec = normalizeSelector(selector);
+
+  if (spec.type === 'regex') {
+    return matchHtml(await page.content(), spec.value);
+  }
+
+  const element = await queryElement(page, spec);
+  if (!element) return null;
+
+  for (const attribute of spec.attribute ? [spec.attribute] : fallbackAttributes) {
+    const value = (await element.getAttribute(attribute))?.trim();
+    if (value) return value;
+  }
+  if (spec.attribute) return null; // The attribute was asked for explicitly
+
+  return (await element.textContent())?.replace(/\s+/g, ' ').trim() || null;
+}
+
+/**
+ * First element matched by a CSS or XPath selector in a parsed document
+ */
+export function queryDocument(document: Document, selector: Selector): Element | null {
+  const spec = normalizeSelector(selector);
+
+  switch (spec.type) {
+    case 'css':
+      return document.querySelector(spec.value);
+    case 'xpath': {
+      // 9 = XPathResult.FIRST_ORDERED_NODE_TYPE
+      const node = document.evaluate(spec.value, document, null, 9, null).singleNodeValue;
+      return node && node.nodeType === 1 ? (node as Element) : null;
+    }
+    case 'regex':
+      return null;
+  }
+}
+
+/**
+ * readSelector for a parsed document and the HTML it was parsed from
+ */
+export function readDocumentSelector(
+  document: Document,
+  html: string,
+  selector: Selector,
+  fallbackAttributes: string[] = []
+): string | null {
+  const spec = normalizeSelector(selector);
+
+  if (spec.type === 'regex') {
+    return matchHtml(html, spec.value);
+  }
+
+  const element = queryDocument(document, spec);
+  if (!element) return null;
+
+  for (const attribute of spec.attribute ? [spec.attribute] : fallbackAttributes) {
+    const value = element.getAttribute(attribute)?.trim();
+    if (value) return value;
+  }
+  if (spec.attribute) return null;
+
+  return element.textContent?.replace(/\s+/g, ' ').trim() || null;
+}
+
+/**
+ * Run a regex over HTML and return its first capture group, else the whole match,
+ * with any tags inside it stripped
+ */
+export function matchHtml(html: string, pattern: string): string | null {
+  const match = new RegExp(pattern).exec(html);
+  if (!match) return null;
+
+  const value = match.length > 1 ? match.slice(1).find(group => group !== undefined) : match[0];
+  return value?.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() || null;
+}
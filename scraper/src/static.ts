@@ -0,0 +1,145 @@
+/**
+ * Browserless fetch mode: a plain HTTP GET parsed with jsdom
+ *
+ * Server-rendered shops send their prices in the initial HTML, so there is no
+ * need for a browser page, script execution or waiting for network idle.
+ */
+
+import { gunzipSync } from 'zlib';
+import { JSDOM } from 'jsdom';
+import { detectBlock } from './blocking';
+import { getStatusCode, ScrapeError } from './errors';
+import { getUserAgent } from './utils';
+
+export interface StaticDocument {
+  // Final URL after redirects
+  url: string;
+  html: string;
+  document: Document;
+  // Free the parsed DOM once extraction is done
+  close: () => void;
+}
+
+export interface TextDocument {
+  // Final URL after redirects
+  url: string;
+  contentType: string;
+  body: string;
+}
+
+export interface StaticFetchOptions {
+  timeout?: number;
+  userAgent?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Fetch a page over HTTP and parse it without running its scripts. Block and
+ * challenge pages fail with BLOCKED, as they do in the browser.
+ */
+export async function fetchStaticDocument(url: string, options: StaticFetchOptions = {}): Promise<StaticDocument> {
+  const response = await fetch(url, {
+    headers: buildHeaders(options, 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'),
+    redirect: 'follow',
+    signal: AbortSignal.timeout(options.timeout || 30000),
+  }).catch(error => {
+    // AbortSignal.timeout() rejects with a DOMException named TimeoutError
+    const code = (error as Error | undefined)?.name === 'TimeoutError' ? 'TIMEOUT' : 'NAVIGATION_FAILED';
+    throw new ScrapeError(code, error instanceof Error ? error.message : String(error));
+  });
+
+  const html = await response.text();
+  const contentType = response.headers.get('content-type') || '';
+  const page = !contentType || /html|xml/i.test(contentType) ? parseStaticDocument(response.url || url, html) : null;
+
+  try {
+    const block = detectBlock({
+      status: response.status,
+      headers: Object.fromEntries(response.headers),
+      title: page?.document.title || '',
+      html,
+    });
+    if (block) {
+      throw new ScrapeError('BLOCKED', `Blocked by ${block.vendor} (${block.reason})`, { block });
+    }
+    if (!response.ok) {
+      throw new ScrapeError(getStatusCode(response.status), `HTTP ${response.status} ${response.statusText}`.trim());
+    }
+    if (!page) {
+      throw new Error(`Expected HTML but got ${contentType}`);
+    }
+  } catch (error) {
+    page?.close();
+    throw error;
+  }
+
+  return page;
+}
+
+/**
+ * Parse HTML fetched earlier, or kept in a fixture, like a fresh fetch
+ */
+export function parseStaticDocument(url: string, html: string): StaticDocument {
+  const dom = new JSDOM(html, { url });
+
+  return {
+    url,
+    html,
+    document: dom.window.document,
+    close: () => dom.window.close(),
+  };
+}
+
+/**
+ * GET a JSON document with the same headers as a page fetch; null when it is
+ * missing or not JSON
+ */
+export async function fetchJsonDocument(url: string, options: StaticFetchOptions = {}): Promise<unknown> {
+  try {
+    const response = await fetch(url, {
+      headers: buildHeaders(options, 'application/json'),
+      redirect: 'follow',
+      signal: AbortSignal.timeout(options.timeout || 30000),
+    });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET a text document such as a sitemap without parsing it. Gzipped files
+ * (sitemap.xml.gz) are unpacked; a gzip Content-Encoding is undone by fetch.
+ */
+export async function fetchTextDocument(url: string, options: StaticFetchOptions = {}): Promise<TextDocument> {
+  const response = await fetch(url, {
+    headers: buildHeaders(options, 'text/html,application/xml,text/xml;q=0.9,*/*;q=0.8'),
+    redirect: 'follow',
+    signal: AbortSignal.timeout(options.timeout || 30000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  const gzipped = data[0] === 0x1f && data[1] === 0x8b;
+  return {
+    url: response.url,
+    contentType: response.headers.get('content-type') || '',
+    body: (gzipped ? gunzipSync(data) : data).toString('utf8'),
+  };
+}
+
+function buildHeaders(options: StaticFetchOptions, accept: string): Headers {
+  const headers = new Headers({
+    'User-Agent': options.userAgent || getUserAgent(),
+    Accept: accept,
+    'Accept-Language': 'en-US,en;q=0.9',
+  });
+  // An emulation profile's user agent, language and cookies replace the defaults
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    headers.set(name, value);
+  }
+  return headers;
+}
@@ -0,0 +1,328 @@
+/**
+ * Structured-data price extraction (JSON-LD, microdata, OpenGraph/meta)
+ *
+ * The raw sources are collected from the page first and parsed here in Node,
+ * so the same parsers work no matter how the HTML was obtained.
+ */
+
+import { Page } from 'playwright';
+import { StructuredPriceStrategy } from './types';
+import { parsePrice, ParsePriceOptions } from './utils';
+
+export interface MicrodataProperty {
+  name: string;
+  value: string;
+  scopeType: string;
+}
+
+export interface StructuredSources {
+  jsonLd: string[];
+  microdata: MicrodataProperty[];
+  meta: Record<string, string>;
+}
+
+export interface StructuredPrice {
+  price: number;
+  currency?: string;
+  rawPrice: string;
+  originalPrice?: number;
+  rawOriginalPrice?: string;
+  productName?: string;
+  imageUrl?: string;
+}
+
+const JSON_LD_SELECTOR = 'script[type="application/ld+json"]';
+const MICRODATA_SELECTOR = '[itemprop]';
+const META_SELECTOR = 'meta[property], meta[name]';
+
+/**
+ * Collect the raw JSON-LD blocks, microdata properties and meta tags of a page
+ */
+export async function collectStructuredSources(page: Page): Promise<StructuredSources> {
+  return toStructuredSources(
+    await page.$$eval(JSON_LD_SELECTOR, readJsonLdNodes),
+    await page.$$eval(MICRODATA_SELECTOR, readMicrodataNodes),
+    await page.$$eval(META_SELECTOR, readMetaNodes)
+  );
+}
+
+/**
+ * Same as collectStructuredSources, for a document parsed outside the browser
+ */
+export function collectDocumentSources(document: Document): StructuredSources {
+  return toStructuredSources(
+    readJsonLdNodes(Array.from(document.querySelectorAll(JSON_LD_SELECTOR))),
+    readMicrodataNodes(Array.from(document.querySelectorAll(MICRODATA_SELECTOR))),
+    readMetaNodes(Array.from(document.querySelectorAll(META_SELECTOR)))
+  );
+}
+
+// The node readers also run inside the browser, so they must not use anything from this module
+
+function readJsonLdNodes(nodes: Element[]): string[] {
+  return nodes.map(node => node.textContent || '');
+}
+
+function readMicrodataNodes(nodes: Element[]): MicrodataProperty[] {
+  return nodes.map(node => ({
+    name: node.getAttribute('itemprop') || '',
+    value:
+      node.getAttribute('content') ||
+      node.getAttribute('value') ||
+      (node.tagName === 'LINK' ? node.getAttribute('href') : null) ||
+      node.textContent ||
+      '',
+    scopeType: node.closest('[itemscope]')?.getAttribute('itemtype') || '',
+  }));
+}
+
+function readMetaNodes(nodes: Element[]): Array<{ key: string; content: string }> {
+  return nodes.map(node => ({
+    key: node.getAttribute('property') || node.getAttribute('name') || '',
+    content: node.getAttribute('content') || '',
+  }));
+}
+
+function toStructuredSources(
+  jsonLd: string[],
+  microdata: MicrodataProperty[],
+  metaTags: Array<{ key: string; content: string }>
+): StructuredSources {
+  const meta: Record<string, string> = {};
+  for (const { key, content } of metaTags) {
+    const normalizedKey = key.toLowerCase();
+    if (normalizedKey && content && !(normalizedKey in meta)) {
+      meta[normalizedKey] = content;
+    }
+  }
+
+  return { jsonLd, microdata, meta };
+}
+
+/**
+ * Run a single structured-data strategy against collected sources
+ */
+export function extractStructuredPrice(
+  strategy: StructuredPriceStrategy,
+  sources: StructuredSources,
+  hints: ParsePriceOptions = {}
+): StructuredPrice | null {
+  switch (strategy) {
+    case 'json-ld':
+      return extractFromJsonLd(sources.jsonLd, hints);
+    case 'microdata':
+      return extractFromMicrodata(sources.microdata, hints);
+    case 'meta':
+      return extractFromMeta(sources.meta, hints);
+  }
+}
+
+/**
+ * Find the first schema.org Product/Offer price in a list of JSON-LD blocks
+ */
+export function extractFromJsonLd(blocks: string[], hints: ParsePriceOptions = {}): StructuredPrice | null {
+  for (const block of blocks) {
+    let data: unknown;
+    try {
+      data = JSON.parse(block);
+    } catch {
+      continue; // Malformed blocks are common, skip them
+    }
+
+    for (const node of flattenJsonLd(data)) {
+      if (hasType(node, 'Product')) {
+        const offer = findOffer(node.offers, hints);
+        if (offer) {
+          return {
+            ...offer,
+            productName: asString(node.name),
+            imageUrl: asImageUrl(node.image),
+          };
+        }
+      } else if (hasType(node, 'Offer') || hasType(node, 'AggregateOffer')) {
+        const offer = findOffer(node, hints);
+        if (offer) return offer;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read itemprop="price" style microdata, preferring Offer/Product scopes
+ */
+export function extractFromMicrodata(
+  properties: MicrodataProperty[],
+  hints: ParsePriceOptions = {}
+): StructuredPrice | null {
+  const inScope = (property: MicrodataProperty, ...types: string[]) =>
+    types.some(type => property.scopeType.includes(type));
+
+  const priceProperty =
+    properties.find(p => p.name === 'price' && inScope(p, 'Offer', 'Product')) ||
+    properties.find(p => p.name === 'lowPrice' && inScope(p, 'AggregateOffer')) ||
+    properties.find(p => p.name === 'price');
+  if (!priceProperty) return null;
+
+  const price = toStructuredPrice(
+    priceProperty.value,
+    properties.find(p => p.name === 'priceCurrency')?.value,
+    hints
+  );
+  if (!price) return null;
+
+  const name = properties.find(p => p.name === 'name' && inScope(p, 'Product'));
+  const image = properties.find(p => p.name === 'image' && inScope(p, 'Product'));
+
+  return {
+    ...price,
+    productName: name?.value.trim() || undefined,
+    imageUrl: image?.value.trim() || undefined,
+  };
+}
+
+/**
+ * Read OpenGraph / Facebook product price meta tags
+ */
+export function extractFromMeta(
+  meta: Record<string, string>,
+  hints: ParsePriceOptions = {}
+): StructuredPrice | null {
+  const amount =
+    meta['product:price:amount'] ||
+    meta['og:price:amount'] ||
+    meta['product:sale_price:amount'];
+  if (!amount) return null;
+
+  const currency =
+    meta['product:price:currency'] ||
+    meta['og:price:currency'] ||
+    meta['product:sale_price:currency'];
+
+  const price = toStructuredPrice(amount, currency, hints);
+  if (!price) return null;
+
+  return {
+    ...price,
+    productName: meta['og:title'] || undefined,
+    imageUrl: meta['og:image'] || undefined,
+  };
+}
+
+/**
+ * Raw schema.org availability value (e.g. "https://schema.org/InStock"), if any source has one
+ */
+export function extractStructuredAvailability(sources: StructuredSources): string | undefined {
+  for (const block of sources.jsonLd) {
+    let data: unknown;
+    try {
+      data = JSON.parse(block);
+    } catch {
+      continue;
+    }
+
+    for (const node of flattenJsonLd(data)) {
+      const offers = hasType(node, 'Product') ? node.offers : hasType(node, 'Offer') ? node : null;
+      for (const offer of Array.isArray(offers) ? offers : [offers]) {
+        const availability = asString(offer?.availability);
+        if (availability) return availability;
+      }
+    }
+  }
+
+  const property = sources.microdata.find(p => p.name === 'availability' && p.value.trim());
+  if (property) return property.value.trim();
+
+  return sources.meta['product:availability'] || sources.meta['og:availability'] || undefined;
+}
+
+type JsonLdNode = Record<string, any>;
+
+function flattenJsonLd(data: unknown): JsonLdNode[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(flattenJsonLd);
+  }
+  if (data && typeof data === 'object') {
+    const node = data as JsonLdNode;
+    return [node, ...(node['@graph'] ? flattenJsonLd(node['@graph']) : [])];
+  }
+  return [];
+}
+
+function hasType(node: JsonLdNode, type: string): boolean {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some(t => typeof t === 'string' && (t === type || t.endsWith(`/${type}`)));
+}
+
+function findOffer(offers: unknown, hints: ParsePriceOptions): StructuredPrice | null {
+  for (const offer of Array.isArray(offers) ? offers : [offers]) {
+    if (!offer || typeof offer !== 'object') continue;
+
+    const node = offer as JsonLdNode;
+    const specifications: JsonLdNode[] = (
+      Array.isArray(node.priceSpecification) ? node.priceSpecification : [node.priceSpecification]
+    ).filter(Boolean);
+
+    // Strikethrough/ListPrice specifications carry the regular price, not the current one
+    const isListPrice = (spec: JsonLdNode) => /StrikethroughPrice|ListPrice/.test(String(spec.priceType || ''));
+    const specification = specifications.find(spec => !isListPrice(spec));
+    const listSpecification = specifications.find(isListPrice);
+
+    const value = node.price ?? node.lowPrice ?? specification?.price;
+    if (value === undefined || value === null || value === '') continue;
+
+    const currency = node.priceCurrency ?? specification?.priceCurrency;
+    const price = toStructuredPrice(value, currency, hints);
+    if (!price) continue;
+
+    const original = listSpecification?.price !== undefined
+      ? toStructuredPrice(listSpecification.price, listSpecification.priceCurrency ?? currency, hints)
+      : null;
+
+    return original
+      ? { ...price, originalPrice: original.price, rawOriginalPrice: original.rawPrice }
+      : price;
+  }
+
+  return null;
+}
+
+/**
+ * Read a machine-readable price value: numbers and plain decimals as-is,
+ * anything else as display text
+ */
+export function toStructuredPrice(
+  value: unknown,
+  currency: unknown,
+  hints: ParsePriceOptions
+): StructuredPrice | null {
+  const rawPrice = String(value).trim();
+  const explicitCurrency = asString(currency)?.toUpperCase();
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { price: value, currency: explicitCurrency, rawPrice } : null;
+  }
+
+  // schema.org prices are plain decimals ("1299.00"); anything else is display text
+  if (/^-?\d+(\.\d+)?$/.test(rawPrice)) {
+    return { price: parseFloat(rawPrice), currency: explicitCurrency, rawPrice };
+  }
+
+  try {
+    const parsed = parsePrice(rawPrice, { ...hints, currency: explicitCurrency || hints.currency });
+    return { price: parsed.price, currency: parsed.currency, rawPrice };
+  } catch {
+    return null;
+  }
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asImageUrl(image: unknown): string | undefined {
+  if (Array.isArray(image)) return asImageUrl(image[0]);
+  if (image && typeof image === 'object') return asString((image as JsonLdNode).url);
+  return asString(image);
+}
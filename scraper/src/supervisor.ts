@@ -0,0 +1,93 @@
+/**
+ * Browser supervision: how much memory Chromium uses and whether the service
+ * can take scrapes right now
+ *
+ * The scraper relaunches a crashed browser, replaces worn contexts and closes
+ * hung pages; this module holds the limits and turns what it saw into a status.
+ */
+
+import { promises as fs } from 'fs';
+import { Browser } from 'playwright';
+import { BrowserHealth, HealthStatus } from './types';
+
+export const DEFAULT_MAX_BROWSER_MEMORY = 1536;
+export const DEFAULT_PAGE_TIMEOUT = 3 * 60 * 1000;
+export const SUPERVISION_INTERVAL = 30 * 1000;
+
+/**
+ * How long a crash or a hung page keeps the service degraded
+ */
+export const RECENT_TROUBLE_WINDOW = 5 * 60 * 1000;
+
+/**
+ * Resident memory of all of a browser's processes in bytes. Null where it
+ * cannot be read: non-Chromium browsers or systems without /proc.
+ */
+export async function readBrowserMemory(browser: Browser): Promise<number | null> {
+  try {
+    const session = await browser.newBrowserCDPSession();
+    try {
+      const { processInfo } = (await session.send('SystemInfo.getProcessInfo')) as {
+        processInfo: Array<{ id: number }>;
+      };
+      const sizes = await Promise.all(processInfo.map(({ id }) => readResidentMemory(id)));
+      return sizes.reduce((sum, size) => sum + size, 0);
+    } finally {
+      await session.detach().catch(() => undefined);
+    }
+  } catch {
+    return null;
+  }
+}
+
+async function readResidentMemory(pid: number): Promise<number> {
+  try {
+    const status = await fs.readFile(`/proc/${pid}/status`, 'utf8');
+    const match = /^VmRSS:\s+(\d+)\s+kB/m.exec(status);
+    return match ? parseInt(match[1]) * 1024 : 0;
+  } catch {
+    // The process ended between listing and reading
+    return 0;
+  }
+}
+
+export interface SupervisionSnapshot {
+  browser: BrowserHealth['browser'];
+  launchError?: string;
+  lastCrashAt?: number;
+  lastHungAt?: number;
+  memory?: number;
+  maxBrowserMemory: number;
+  pages: BrowserHealth['pages'];
+}
+
+/**
+ * Down when the browser cannot be launched, degraded after recent trouble or
+ * when memory or the page pool is at its limit, ready otherwise
+ */
+export function assessHealth(snapshot: SupervisionSnapshot): { status: HealthStatus; issues: string[] } {
+  if (snapshot.launchError && snapshot.browser !== 'connected') {
+    return { status: 'down', issues: [`Browser cannot be launched: ${snapshot.launchError}`] };
+  }
+
+  const issues: string[] = [];
+  const recent = Date.now() - RECENT_TROUBLE_WINDOW;
+
+  if (snapshot.browser === 'disconnected') {
+    issues.push('Browser disconnected, relaunching');
+  }
+  if (snapshot.lastCrashAt && snapshot.lastCrashAt > recent) {
+    issues.push('Browser crashed in the last 5 minutes');
+  }
+  if (snapshot.lastHungAt && snapshot.lastHungAt > recent) {
+    issues.push('Hung pages were closed in the last 5 minutes');
+  }
+  if (snapshot.maxBrowserMemory && snapshot.memory && snapshot.memory > snapshot.maxBrowserMemory * 1024 * 1024) {
+    issues.push(`Browser memory above ${snapshot.maxBrowserMemory} MB`);
+  }
+  if (snapshot.pages.concurrency && snapshot.pages.pending > 0) {
+    issues.push(`All ${snapshot.pages.concurrency} pages busy, ${snapshot.pages.pending} waiting`);
+  }
+
+  return { status: issues.length > 0 ? 'degraded' : 'ready', issues };
+}
@@ -2,62 +2,272 @@
  * Utility functions for the scraper
  */
 
+import {
+  AMBIGUOUS_CURRENCY_SYMBOLS,
+  CURRENCY_SYMBOLS,
+  getCurrencyFractionDigits,
+  getLocaleCurrency,
+  getLocaleRegion,
+  getLocaleSeparators,
+  isCurrencyCode,
+  normalizeSeparator,
+} from './currency';
+
+export interface ParsePriceOptions {
+  /** BCP 47 locale whose decimal and grouping separators the text uses (e.g. "de-DE") */
+  locale?: string;
+  /**
+   * ISO 4217 code to assume when the text has no currency, or only an ambiguous symbol like "$";
+   * without one the locale's currency is assumed, then USD
+   */
+  currency?: string;
+}
+
+// Where a currency code or symbol sits in the price text
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Spaced/apostrophe thousands first ("1 299,00"), then any run of digits and
+ * separators, then a bare fraction (".99")
+ */
+const NUMBER_PATTERN = /\d{1,3}(?:[ ']\d{3})+(?:[.,]\d+)?|\d[\d.,]*\d|\d|[.,]\d+/g;
+
 /**
  * Parse price string to number
- * Handles various currency formats: $99.99, €99.99, £99.99, 99.99 USD, etc.
+ * Handles currency symbols ($, CA$, €, zł...), ISO 4217 codes and locale-specific
+ * separators: "$1,299.99", "1.299,00 €", "₹1,23,456", "CHF 1'299.50", "1 299,00 zł".
+ * The number next to the currency is taken over others in the text ("3 left, $9.99"),
+ * and percentages are skipped. Without a locale the separators are inferred; input
+ * that could mean two different numbers is rejected instead of guessed.
  */
-export function parsePrice(priceText: string): { price: number; currency: string } {
-  if (!priceText) {
+export function parsePrice(
+  priceText: string,
+  options: ParsePriceOptions = {}
+): { price: number; currency: string } {
+  if (!priceText || !priceText.trim()) {
     throw new Error('Price text is empty');
   }
 
-  // Remove extra whitespace
-  const cleaned = priceText.trim();
-
-  // Currency symbols and their codes
-  const currencyPatterns = [
-    { symbol: '$', code: 'USD' },
-    { symbol: '€', code: 'EUR' },
-    { symbol: '£', code: 'GBP' },
-    { symbol: '¥', code: 'JPY' },
-    { symbol: '₹', code: 'INR' },
-    { symbol: '₽', code: 'RUB' },
-    { symbol: '₩', code: 'KRW' },
-  ];
-
-  let currency = 'USD';
-  let priceString = cleaned;
-
-  // Check for currency symbols
-  for (const { symbol, code } of currencyPatterns) {
-    if (cleaned.includes(symbol)) {
-      currency = code;
-      priceString = cleaned.replace(symbol, '').trim();
-      break;
+  const cleaned = normalizeSeparator(priceText.trim()).replace(/\u2212/g, '-');
+  const { currency, span } = detectCurrency(cleaned, options);
+
+  // Blanked out so a symbol ending in a dot ("Rs.1,299") is not read as a decimal point
+  const digits = span
+    ? cleaned.slice(0, span.start) + ' '.repeat(span.end - span.start) + cleaned.slice(span.end)
+    : cleaned;
+  const match = pickNumber(digits, span);
+  if (!match || match.index === undefined) {
+    throw new Error(`Could not parse price from: ${priceText}`);
+  }
+
+  const token = match[0];
+  const separators = options.locale
+    ? getLocaleSeparators(options.locale)
+    : inferSeparators(token, currency, priceText, Boolean(span || options.currency));
+
+  const price = toNumber(token, separators, priceText, options.locale);
+  return { price: isNegative(cleaned, match.index, span) ? -price : price, currency };
+}
+
+/**
+ * Find the currency in a price string and where it is; no span when it comes
+ * from the hint, the locale or the USD default
+ */
+function detectCurrency(text: string, options: ParsePriceOptions): { currency: string; span?: TextSpan } {
+  const hint = options.currency?.toUpperCase();
+
+  // ISO codes win over symbols ("CAD $12" is Canadian dollars), but only next to the
+  // number, so words that happen to be codes ("ALL SIZES $9.99") are not taken for one
+  for (const match of text.matchAll(/(?<![A-Za-z])[A-Z]{3}(?![A-Za-z])/g)) {
+    if (match.index === undefined || !isCurrencyCode(match[0])) continue;
+    const end = match.index + 3;
+    const before = /\d\s*$/.test(text.slice(0, match.index));
+    const after = /^\s*(?:[^\sA-Za-z\d]{1,2}\s*)?[-+]?[.,]?\d/.test(text.slice(end));
+    if (before || after) {
+      return { currency: match[0], span: { start: match.index, end } };
     }
   }
 
-  // Check for currency codes (e.g., "99.99 USD", "USD 99.99")
-  const codePattern = /\b(USD|EUR|GBP|JPY|INR|RUB|KRW|CAD|AUD|CHF)\b/i;
-  const codeMatch = cleaned.match(codePattern);
-  if (codeMatch) {
-    currency = codeMatch[1].toUpperCase();
-    priceString = cleaned.replace(codePattern, '').trim();
+  const symbols = Object.keys(CURRENCY_SYMBOLS).sort((a, b) => b.length - a.length);
+  for (const symbol of symbols) {
+    const span = findSymbol(text, symbol);
+    if (span) {
+      return { currency: CURRENCY_SYMBOLS[symbol], span };
+    }
   }
 
-  // Remove common separators and formatting
-  priceString = priceString
-    .replace(/,/g, '') // Remove thousand separators
-    .replace(/[^\d.-]/g, ''); // Keep only digits, decimal point, and minus
+  for (const [symbol, { fallback, regions }] of Object.entries(AMBIGUOUS_CURRENCY_SYMBOLS)) {
+    const span = findSymbol(text, symbol);
+    if (span) {
+      const region = options.locale ? getLocaleRegion(options.locale) : undefined;
+      const currency = hint || (region && regions[region]) || fallback;
+      return { currency, span };
+    }
+  }
 
-  // Parse the number
-  const price = parseFloat(priceString);
+  return { currency: hint || (options.locale && getLocaleCurrency(options.locale)) || 'USD' };
+}
 
-  if (isNaN(price)) {
-    throw new Error(`Could not parse price from: ${priceText}`);
+/**
+ * Letter-based symbols ("kr", "lei") only count when they are not part of a word
+ */
+function findSymbol(text: string, symbol: string): TextSpan | undefined {
+  let start: number;
+  if (!/[A-Za-z\u00C0-\u024F\u0400-\u04FF]/.test(symbol)) {
+    start = text.indexOf(symbol);
+  } else {
+    const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    start = text.search(new RegExp(`(?<![\\p{L}])${escaped}(?![\\p{L}])`, 'u'));
   }
+  return start === -1 ? undefined : { start, end: start + symbol.length };
+}
 
-  return { price, currency };
+/**
+ * The number closest to the currency, or the first one when there is no
+ * currency in the text; percentages ("Save 20%") are never prices
+ */
+function pickNumber(text: string, span: TextSpan | undefined): RegExpMatchArray | undefined {
+  const numbers = Array.from(text.matchAll(NUMBER_PATTERN)).filter(
+    match => !/^\s?%/.test(text.slice((match.index ?? 0) + match[0].length))
+  );
+  if (!span) return numbers[0];
+
+  const distance = (match: RegExpMatchArray): number => {
+    const start = match.index ?? 0;
+    return start >= span.end ? start - span.end : span.start - (start + match[0].length);
+  };
+  // Stable, so the earlier number wins a tie
+  return numbers.sort((a, b) => distance(a) - distance(b))[0];
+}
+
+/**
+ * A minus sign counts only directly before the digits ("-9.99") or the currency
+ * ("-$9.99"), and not after a word or number, so "Sale - $9.99" and ranges
+ * like "10-12 €" stay positive
+ */
+function isNegative(text: string, index: number, span: TextSpan | undefined): boolean {
+  const isSign = (at: number): boolean => text[at] === '-' && !/[\p{L}\p{N}]/u.test(text[at - 1] || '');
+
+  if (isSign(index - 1)) return true;
+  return !!span && span.end <= index && !text.slice(span.end, index).trim() && isSign(span.start - 1);
+}
+
+/**
+ * Work out decimal and grouping separators from the number itself
+ */
+function inferSeparators(
+  token: string,
+  currency: string,
+  priceText: string,
+  hasCurrency: boolean
+): { decimal: string; group: string } {
+  const dots = token.split('.').length - 1;
+  const commas = token.split(',').length - 1;
+
+  // Both present: whichever comes last is the decimal separator ("1.299,00", "1,299.00")
+  if (dots > 0 && commas > 0) {
+    return token.lastIndexOf(',') > token.lastIndexOf('.')
+      ? { decimal: ',', group: '.' }
+      : { decimal: '.', group: ',' };
+  }
+
+  const separator = dots > 0 ? '.' : commas > 0 ? ',' : null;
+  if (!separator) {
+    return { decimal: '.', group: ',' };
+  }
+
+  const other = separator === '.' ? ',' : '.';
+
+  // Repeated separator can only be grouping ("1.234.567", "1,23,456")
+  if (dots + commas > 1) {
+    return { decimal: other, group: separator };
+  }
+
+  const [integer, fraction] = token.split(separator);
+
+  // "0,299", ".299" or "12,99" cannot be grouping
+  if (fraction.length !== 3 || /^0*$/.test(integer.replace(/[ ']/g, ''))) {
+    return { decimal: separator, group: other };
+  }
+
+  // "$1,299" is 1299 unless the currency itself has three decimals (KWD, BHD, ...);
+  // a bare "1,299" could be either
+  if (!hasCurrency || getCurrencyFractionDigits(currency) === 3) {
+    throw new Error(
+      `Ambiguous price "${priceText}": "${token}" could be ${integer}${fraction} or ${integer}.${fraction}; ` +
+        'set a locale or currency'
+    );
+  }
+
+  return { decimal: other, group: separator };
+}
+
+/**
+ * Convert a numeric token to a number, validating it against the separators
+ */
+function toNumber(
+  token: string,
+  { decimal, group }: { decimal: string; group: string },
+  priceText: string,
+  locale?: string
+): number {
+  const format = locale ? `the ${locale} number format` : 'a consistent number format';
+
+  // Spaces and apostrophes are always accepted as grouping alongside the locale's own
+  const groupChars = new Set([group, ' ', "'"]);
+  groupChars.delete(decimal);
+
+  for (const char of token.replace(/\d/g, '')) {
+    if (char !== decimal && !groupChars.has(char)) {
+      throw new Error(`Price "${priceText}" does not match ${format}`);
+    }
+  }
+
+  const parts = token.split(decimal);
+  if (parts.length > 2) {
+    throw new Error(`Price "${priceText}" has more than one decimal separator`);
+  }
+
+  const [integer, fraction = ''] = parts;
+  if (/\D/.test(fraction)) {
+    throw new Error(`Price "${priceText}" does not match ${format}`);
+  }
+
+  const groups = integer.split(/\D/);
+  if (groups.length > 1 && !isValidGrouping(groups)) {
+    throw new Error(`Price "${priceText}" has inconsistent digit grouping`);
+  }
+
+  return parseFloat(`${groups.join('')}${fraction ? `.${fraction}` : ''}`);
+}
+
+/**
+ * Thousands (1,234,567) or Indian lakh/crore (12,34,567) grouping
+ */
+function isValidGrouping(groups: string[]): boolean {
+  const [first, ...rest] = groups;
+  const last = rest.pop() as string;
+
+  if (first.length < 1 || first.length > 3 || last.length !== 3) {
+    return false;
+  }
+
+  return rest.every(group => group.length === 3) || rest.every(group => group.length === 2);
+}
+
+/**
+ * Percentage saved off the regular price, rounded to two decimals.
+ * Undefined when there is no regular price or it is not above the current one.
+ */
+export function calculateDiscountPercent(price: number, originalPrice?: number): number | undefined {
+  if (originalPrice === undefined || !(originalPrice > price) || originalPrice <= 0) {
+    return undefined;
+  }
+
+  return Math.round(((originalPrice - price) / originalPrice) * 10000) / 100;
 }
 
 /**
@@ -168,11 +378,16 @@ export const COMMON_IMAGE_SELECTORS = [
   '.item-image img',
 ];
 
+/**
+ * Product token the scraper identifies itself with, also on emulated devices
+ */
+export const USER_AGENT_PRODUCT = 'CompetitorTracker/1.0';
+
 /**
  * Get a user agent string for the scraper
  */
 export function getUserAgent(): string {
-  return 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 CompetitorTracker/1.0';
+  return `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 ${USER_AGENT_PRODUCT}`;
 }
 
 /**
@@ -187,12 +402,15 @@ export function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Retry a function with exponential backoff
+ * Retry a function with exponential backoff, giving up early on errors
+ * `shouldRetry` rejects. `onRetry` hears about each failure that is retried.
  */
 export async function retry<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  baseDelay: number = 1000
+  baseDelay: number = 1000,
+  shouldRetry: (error: unknown) => boolean = () => true,
+  onRetry?: (error: unknown, attempt: number) => void
 ): Promise<T> {
   let lastError: Error;
   
@@ -201,8 +419,13 @@ export async function retry<T>(
       return await fn();
     } catch (error) {
       lastError = error as Error;
+
+      if (!shouldRetry(error)) {
+        break;
+      }
       
       if (attempt < maxRetries - 1) {
+        onRetry?.(error, attempt + 1);
         const delay = baseDelay * Math.pow(2, attempt);
         await sleep(delay);
       }